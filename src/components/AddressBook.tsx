@@ -0,0 +1,222 @@
+import { useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import ShippingAddressFields from "@/components/ShippingAddressFields";
+import { useAddresses } from "@/hooks/use-addresses";
+import { useShippingCountries } from "@/hooks/use-shipping-countries";
+import { useToast } from "@/hooks/use-toast";
+import { formatAddress, type Address } from "@/lib/addresses";
+import type { ShippingAddress } from "@/lib/orders";
+import { createSavedAddressSchema, EMPTY_SHIPPING_ADDRESS } from "@/lib/shipping-countries";
+
+type SavedAddressValues = ShippingAddress & { label: string };
+
+const toFormValues = ({ id: _id, is_default: _isDefault, label, ...address }: Address): SavedAddressValues => ({
+  ...address,
+  label: label ?? "",
+});
+
+/** Field errors from the `check_address` trigger, which sends them as JSON in the error's details. */
+const getFieldErrors = (error: unknown): Record<string, string> | null => {
+  const { code, details } = (error ?? {}) as { code?: string; details?: string };
+  if (code !== "22023" || !details) return null;
+
+  try {
+    return JSON.parse(details);
+  } catch {
+    return null;
+  }
+};
+
+interface AddressBookProps {
+  userId: string;
+  /** Prefills the email of new addresses. */
+  email?: string;
+}
+
+export default function AddressBook({ userId, email = "" }: AddressBookProps) {
+  const { addresses, isLoading, saveAddress, deleteAddress, setDefaultAddress } = useAddresses(userId);
+  const { countries } = useShippingCountries();
+  const { toast } = useToast();
+  const schema = useMemo(() => createSavedAddressSchema(countries), [countries]);
+  const form = useForm<SavedAddressValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { ...EMPTY_SHIPPING_ADDRESS, label: "" },
+  });
+  // The address being edited: an id, "new" for one being added, or null
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const run = async (id: string, action: () => Promise<unknown>, failure: string) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      toast({ title: failure, description: "Please try again.", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openEditor = (address?: Address) => {
+    form.reset(
+      address
+        ? toFormValues(address)
+        : { ...EMPTY_SHIPPING_ADDRESS, email, label: "" }
+    );
+    setEditingId(address?.id ?? "new");
+  };
+
+  const handleSubmit = async ({ label, ...address }: SavedAddressValues) => {
+    const id = editingId === "new" ? undefined : editingId;
+    setBusyId(editingId);
+
+    try {
+      await saveAddress({ ...address, label: label || null }, id);
+      setEditingId(null);
+    } catch (error) {
+      // The database checks addresses with the same rules as the form
+      const fieldErrors = getFieldErrors(error);
+      if (fieldErrors) {
+        for (const [field, message] of Object.entries(fieldErrors)) {
+          form.setError(field as keyof SavedAddressValues, { message });
+        }
+        return;
+      }
+
+      console.error("Error saving address", error);
+      toast({ title: "Error saving address", description: "Please try again.", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5" />
+          Saved Addresses
+        </CardTitle>
+        <Button size="sm" variant="outline" onClick={() => openEditor()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Address
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading addresses...</p>
+        ) : addresses.length === 0 ? (
+          <p className="text-muted-foreground">
+            You have no saved addresses. Add one here or save it when you check out.
+          </p>
+        ) : (
+          addresses.map((address) => (
+            <div key={address.id} className="flex items-start justify-between gap-4 border rounded-lg p-4">
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">
+                    {address.label || `${address.first_name} ${address.last_name}`}
+                  </p>
+                  {address.is_default && <Badge variant="secondary">Default</Badge>}
+                </div>
+                {address.label && (
+                  <p>{address.first_name} {address.last_name}</p>
+                )}
+                <p className="text-muted-foreground">{formatAddress(address)}</p>
+                <p className="text-muted-foreground">{address.phone}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                {busyId === address.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                {!address.is_default && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={busyId !== null}
+                    onClick={() => run(address.id, () => setDefaultAddress(address.id), "Error updating address")}
+                  >
+                    Set as default
+                  </Button>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  disabled={busyId !== null}
+                  onClick={() => openEditor(address)}
+                  aria-label="Edit address"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  disabled={busyId !== null}
+                  onClick={() => run(address.id, () => deleteAddress(address.id), "Error deleting address")}
+                  aria-label="Delete address"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={editingId !== null} onOpenChange={(open) => !open && busyId === null && setEditingId(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>{editingId === "new" ? "Add address" : "Edit address"}</DialogTitle>
+              </DialogHeader>
+              <FormField
+                control={form.control}
+                name="label"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Label</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Home, Work..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <ShippingAddressFields countries={countries} />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditingId(null)} disabled={busyId !== null}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={busyId !== null}>
+                  {busyId !== null && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Address
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
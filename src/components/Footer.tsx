@@ -1,9 +1,13 @@
 import { Link } from "react-router-dom";
 import { ShoppingCart, Mail, Phone, MapPin } from "lucide-react";
+import { useCategories } from "@/hooks/use-categories";
+import { getChildCategories } from "@/lib/categories";
 
 export default function Footer() {
+  const { categories } = useCategories();
+
   return (
-    <footer className="bg-surface border-t mt-16">
+    <footer className="print:hidden bg-surface border-t mt-16">
       <div className="container mx-auto px-4 py-12">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
           {/* Company Info */}
@@ -35,15 +39,15 @@ export default function Footer() {
               <Link to="/products" className="nav-link text-muted-foreground hover:text-primary">
                 All Products
               </Link>
-              <Link to="/products?category=Electronics" className="nav-link text-muted-foreground hover:text-primary">
-                Electronics
-              </Link>
-              <Link to="/products?category=Clothing" className="nav-link text-muted-foreground hover:text-primary">
-                Clothing
-              </Link>
-              <Link to="/products?category=Groceries" className="nav-link text-muted-foreground hover:text-primary">
-                Groceries
-              </Link>
+              {getChildCategories(categories, null).map((category) => (
+                <Link
+                  key={category.id}
+                  to={`/products?category=${encodeURIComponent(category.slug)}`}
+                  className="nav-link text-muted-foreground hover:text-primary"
+                >
+                  {category.name}
+                </Link>
+              ))}
             </nav>
           </div>
 
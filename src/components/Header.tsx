@@ -5,6 +5,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useCart } from "@/hooks/use-cart";
+import MiniCart from "@/components/MiniCart";
 import type { User as SupabaseUser } from "@supabase/supabase-js";
 
 interface Profile {
@@ -18,6 +20,7 @@ export default function Header() {
   const [searchQuery, setSearchQuery] = useState("");
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { totalItems, setMiniCartOpen } = useCart();
 
   useEffect(() => {
     // Get initial session
@@ -84,8 +87,25 @@ export default function Header() {
     }
   };
 
+  const cartButton = (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="relative text-primary-foreground hover:text-secondary hover:bg-transparent"
+      onClick={() => setMiniCartOpen(true)}
+      aria-label={totalItems > 0 ? `Open cart, ${totalItems} items` : "Open cart"}
+    >
+      <ShoppingCart className="h-5 w-5" />
+      {totalItems > 0 && (
+        <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-secondary text-secondary-foreground text-xs font-semibold flex items-center justify-center">
+          {totalItems > 99 ? "99+" : totalItems}
+        </span>
+      )}
+    </Button>
+  );
+
   return (
-    <header className="sticky top-0 z-50 bg-primary text-primary-foreground shadow-lg">
+    <header className="print:hidden sticky top-0 z-50 bg-primary text-primary-foreground shadow-lg">
       <div className="container mx-auto px-4">
         <div className="flex items-center justify-between h-16">
           {/* Logo */}
@@ -124,12 +144,13 @@ export default function Header() {
             <Link to="/products" className="nav-link text-primary-foreground hover:text-secondary">
               Products
             </Link>
-            <Link to="/cart" className="nav-link text-primary-foreground hover:text-secondary">
-              Cart
-            </Link>
+            {cartButton}
             
             {user ? (
               <>
+                <Link to="/orders" className="nav-link text-primary-foreground hover:text-secondary">
+                  Orders
+                </Link>
                 <Link to="/profile" className="nav-link text-primary-foreground hover:text-secondary">
                   Profile
                 </Link>
@@ -163,15 +184,18 @@ export default function Header() {
             )}
           </nav>
 
-          {/* Mobile Menu Button */}
-          <Button
-            variant="ghost"
-            size="sm"
-            className="md:hidden text-primary-foreground"
-            onClick={() => setIsMenuOpen(!isMenuOpen)}
-          >
-            {isMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
-          </Button>
+          {/* Mobile Cart and Menu Buttons */}
+          <div className="md:hidden flex items-center gap-1">
+            {cartButton}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-primary-foreground"
+              onClick={() => setIsMenuOpen(!isMenuOpen)}
+            >
+              {isMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
+            </Button>
+          </div>
         </div>
 
         {/* Mobile Search */}
@@ -221,6 +245,13 @@ export default function Header() {
             
             {user ? (
               <>
+                <Link
+                  to="/orders"
+                  className="block py-2 nav-link text-primary-foreground hover:text-secondary"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  Orders
+                </Link>
                 <Link
                   to="/profile"
                   className="block py-2 nav-link text-primary-foreground hover:text-secondary"
@@ -266,6 +297,8 @@ export default function Header() {
           </nav>
         )}
       </div>
+
+      <MiniCart />
     </header>
   );
 }
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { useNavigate } from "react-router-dom";
+import { Minus, Plus, ShoppingBag, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { useCart } from "@/hooks/use-cart";
+import { usePricing } from "@/hooks/use-pricing";
+import { getCartLineKey } from "@/lib/cart";
+import { getProductImageUrl } from "@/lib/product-images";
+
+export default function MiniCart() {
+  const {
+    items,
+    totalItems,
+    isMiniCartOpen,
+    setMiniCartOpen,
+    setQuantity,
+    removeItem,
+  } = useCart();
+  // Priced the same way as the cart page, so the two subtotals always agree
+  const { pricing } = usePricing(items);
+  const navigate = useNavigate();
+
+  const goTo = (path: string) => {
+    setMiniCartOpen(false);
+    navigate(path);
+  };
+
+  return (
+    <Sheet open={isMiniCartOpen} onOpenChange={setMiniCartOpen}>
+      <SheetContent className="flex w-full flex-col sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Your Cart</SheetTitle>
+          <SheetDescription>
+            {items.length === 0 ? "Your cart is empty" : `${totalItems} items in your cart`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {items.length === 0 ? (
+          <div className="flex flex-1 flex-col items-center justify-center gap-4 text-center">
+            <ShoppingBag className="h-16 w-16 opacity-20" />
+            <Button onClick={() => goTo("/products")}>Start Shopping</Button>
+          </div>
+        ) : (
+          <>
+            <div className="-mx-6 flex-1 divide-y overflow-y-auto px-6">
+              {items.map((item) => {
+                const key = getCartLineKey(item);
+                return (
+                  <div key={key} className="flex gap-3 py-4">
+                    <img
+                      src={getProductImageUrl(item.image, "cart")}
+                      alt={item.name}
+                      className="h-16 w-16 flex-shrink-0 rounded-md object-cover"
+                    />
+                    <div className="flex-1 space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <h4 className="font-medium text-sm leading-tight">{item.name}</h4>
+                          {item.variantLabel && (
+                            <p className="text-xs text-muted-foreground">{item.variantLabel}</p>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => removeItem(key)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => setQuantity(key, item.quantity - 1)}
+                            disabled={item.quantity <= 1}
+                          >
+                            <Minus className="h-3 w-3" />
+                          </Button>
+                          <span className="min-w-[2rem] text-center text-sm">{item.quantity}</span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => setQuantity(key, item.quantity + 1)}
+                            disabled={item.quantity >= item.stock}
+                          >
+                            <Plus className="h-3 w-3" />
+                          </Button>
+                        </div>
+                        <span className="font-medium text-sm">
+                          ${(item.price * item.quantity).toFixed(2)}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <SheetFooter className="flex-col space-y-3 border-t pt-4 sm:flex-col sm:space-x-0">
+              <div className="flex justify-between font-semibold">
+                <span>Subtotal</span>
+                <span>${pricing.subtotal.toFixed(2)}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">Tax and shipping are calculated at checkout.</p>
+              <Button variant="outline" className="w-full" onClick={() => goTo("/cart")}>
+                View cart
+              </Button>
+              <Button className="w-full" onClick={() => goTo("/checkout")}>
+                Checkout
+              </Button>
+            </SheetFooter>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,33 @@
+import { Badge } from "@/components/ui/badge";
+import { getOrderStatusLabel } from "@/lib/order-status";
+import { cn } from "@/lib/utils";
+
+const getStatusBadgeClass = (status: string) => {
+  switch (status) {
+    case "paid":
+    case "processing":
+    case "shipped":
+      return "bg-accent text-accent-foreground";
+    case "delivered":
+      return "bg-primary text-primary-foreground";
+    case "cancelled":
+      return "bg-destructive text-destructive-foreground";
+    case "refunded":
+      return "bg-muted text-muted-foreground";
+    default:
+      return "bg-secondary text-secondary-foreground";
+  }
+};
+
+interface OrderStatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+export default function OrderStatusBadge({ status, className }: OrderStatusBadgeProps) {
+  return (
+    <Badge className={cn(getStatusBadgeClass(status), className)}>
+      {getOrderStatusLabel(status)}
+    </Badge>
+  );
+}
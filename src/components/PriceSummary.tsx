@@ -0,0 +1,46 @@
+import { cn } from "@/lib/utils";
+import type { PriceBreakdown } from "@/lib/pricing";
+
+interface PriceSummaryProps {
+  pricing: PriceBreakdown;
+  totalItems: number;
+  /** Tax is only an estimate until the shipping address is known. */
+  isEstimate?: boolean;
+  promotionCode?: string | null;
+  className?: string;
+}
+
+export default function PriceSummary({ pricing, totalItems, isEstimate, promotionCode, className }: PriceSummaryProps) {
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex justify-between">
+        <span>Subtotal ({totalItems} items)</span>
+        <span>${pricing.subtotal.toFixed(2)}</span>
+      </div>
+      {pricing.discount > 0 && (
+        <div className="flex justify-between text-accent">
+          <span>Discount{promotionCode && ` (${promotionCode})`}</span>
+          <span>-${pricing.discount.toFixed(2)}</span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span>Shipping</span>
+        {pricing.shipping === 0 ? (
+          <span className="text-accent">Free</span>
+        ) : (
+          <span>${pricing.shipping.toFixed(2)}</span>
+        )}
+      </div>
+      <div className="flex justify-between">
+        <span>{isEstimate ? "Estimated tax" : "Tax"}</span>
+        <span>${pricing.tax.toFixed(2)}</span>
+      </div>
+      <div className="border-t pt-2">
+        <div className="flex justify-between text-lg font-semibold">
+          <span>Total</span>
+          <span>${pricing.total.toFixed(2)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
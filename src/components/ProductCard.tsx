@@ -3,6 +3,7 @@ import { ShoppingCart, Eye } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { getProductImageUrl } from "@/lib/product-images";
 
 interface Product {
   id: string;
@@ -12,6 +13,7 @@ interface Product {
   stock: number;
   category: string;
   description?: string;
+  has_variants?: boolean;
 }
 
 interface ProductCardProps {
@@ -34,7 +36,7 @@ export default function ProductCard({ product, onAddToCart }: ProductCardProps)
     <Card className="card-hover overflow-hidden">
       <div className="aspect-square overflow-hidden">
         <img
-          src={product.image || `https://placehold.co/300x300/f3f4f6/6b7280?text=${encodeURIComponent(product.name)}`}
+          src={getProductImageUrl(product.image, "card")}
           alt={product.name}
           className="w-full h-full object-cover transition-transform duration-300 hover:scale-105"
         />
@@ -72,7 +74,16 @@ export default function ProductCard({ product, onAddToCart }: ProductCardProps)
             </Button>
           </Link>
           
-          {product.stock > 0 && onAddToCart && (
+          {product.stock > 0 && product.has_variants && (
+            <Link to={`/product/${product.id}`} className="flex-1">
+              <Button className="w-full" size="sm">
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                Select Options
+              </Button>
+            </Link>
+          )}
+
+          {product.stock > 0 && !product.has_variants && onAddToCart && (
             <Button
               onClick={() => onAddToCart(product)}
               className="flex-1"
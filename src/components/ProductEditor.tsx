@@ -0,0 +1,376 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, Upload } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import ProductImageManager from "@/components/ProductImageManager";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { flattenCategoryTree } from "@/lib/categories";
+import { getProductImageUrl, uploadProductImage } from "@/lib/product-images";
+
+interface Product {
+  id: string;
+  name: string;
+  price: number;
+  image: string;
+  stock: number;
+  weight?: number;
+  category: string;
+  category_id: string | null;
+  description: string;
+  has_variants?: boolean;
+}
+
+interface ProductEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The product to edit, or null to create a new one. */
+  product: Product | null;
+  /** Owner of the uploaded images; uploads go to this vendor's Storage folder. */
+  vendorId: string;
+  onSaved: () => void;
+}
+
+const productSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(120, "Name must be 120 characters or fewer"),
+  description: z.string().trim().max(2000, "Description must be 2000 characters or fewer"),
+  price: z.coerce
+    .number({ invalid_type_error: "Price must be a number" })
+    .min(0, "Price can't be negative")
+    .max(99999999.99, "Price is too large"),
+  category_id: z.string().min(1, "Select a category"),
+  image: z.union([z.literal(""), z.string().trim().url("Enter a valid image URL")]),
+  stock: z.coerce
+    .number({ invalid_type_error: "Stock must be a number" })
+    .int("Stock must be a whole number")
+    .min(0, "Stock can't be negative"),
+  weight: z.coerce
+    .number({ invalid_type_error: "Weight must be a number" })
+    .min(0, "Weight can't be negative")
+    .max(9999999.999, "Weight is too large"),
+});
+
+type ProductFormValues = z.infer<typeof productSchema>;
+
+const toFormValues = (product: Product | null): ProductFormValues => ({
+  name: product?.name ?? "",
+  description: product?.description ?? "",
+  price: product?.price ?? 0,
+  category_id: product?.category_id ?? "",
+  image: product?.image ?? "",
+  stock: product?.stock ?? 0,
+  weight: product?.weight ?? 0,
+});
+
+export default function ProductEditor({ open, onOpenChange, product, vendorId, onSaved }: ProductEditorProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const { toast } = useToast();
+  const { categories } = useCategories();
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productSchema),
+    defaultValues: toFormValues(product),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(product));
+    }
+  }, [open, product, form]);
+
+  const isEditing = product !== null;
+  const hasVariants = product?.has_variants ?? false;
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast({
+        title: "Invalid file",
+        description: "Please choose an image file.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+
+    try {
+      const imageUrl = await uploadProductImage(file, vendorId);
+      form.setValue("image", imageUrl, { shouldDirty: true, shouldValidate: true });
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      toast({
+        title: "Upload failed",
+        description: "Failed to upload the image. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = async (values: ProductFormValues) => {
+    const productData = {
+      name: values.name,
+      description: values.description || null,
+      price: values.price,
+      category_id: values.category_id,
+      stock: values.stock,
+      weight: values.weight,
+    };
+
+    try {
+      if (isEditing) {
+        // Images of existing products are managed through the gallery, and
+        // stock of products with variants is the sum of their variants
+        const { stock, ...details } = productData;
+        const { error } = await supabase
+          .from('products')
+          .update(hasVariants ? details : { ...details, stock })
+          .eq('id', product.id);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('products')
+          .insert({ ...productData, image: values.image || null })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+
+        if (values.image) {
+          const { error: imageError } = await supabase
+            .from('product_images')
+            .insert({ product_id: data.id, url: values.image, position: 0 });
+
+          if (imageError) throw imageError;
+        }
+      }
+
+      toast({
+        title: isEditing ? "Product updated" : "Product created",
+        description: `${values.name} has been saved.`,
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving product:', error);
+      toast({
+        title: "Save failed",
+        description: "Failed to save the product. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Product" : "New Product"}</DialogTitle>
+          <DialogDescription>
+            {isEditing ? "Update the details of this product." : "Add a new product to your catalog."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="stock"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stock *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" min="0" disabled={hasVariants} {...field} />
+                    </FormControl>
+                    {hasVariants && (
+                      <FormDescription>Managed per variant</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="weight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weight (kg)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.001" min="0" {...field} />
+                    </FormControl>
+                    <FormDescription>Used for weight-based shipping</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="category_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {flattenCategoryTree(categories).map(({ category, depth }) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            <span style={{ paddingLeft: `${depth * 0.75}rem` }}>{category.name}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {isEditing ? (
+              <ProductImageManager productId={product.id} vendorId={vendorId} />
+            ) : (
+              <FormField
+                control={form.control}
+                name="image"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Image</FormLabel>
+                    <div className="flex items-center gap-4">
+                      <img
+                        src={getProductImageUrl(field.value, "cart")}
+                        alt="Product preview"
+                        className="w-20 h-20 object-cover rounded-md border"
+                      />
+                      <div className="flex-1 space-y-2">
+                        <Button type="button" variant="outline" size="sm" disabled={isUploading} asChild>
+                          <label className="cursor-pointer">
+                            {isUploading ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Upload className="mr-2 h-4 w-4" />
+                            )}
+                            {isUploading ? "Uploading..." : "Upload Image"}
+                            <input
+                              type="file"
+                              accept="image/jpeg,image/png,image/webp,image/gif"
+                              className="sr-only"
+                              onChange={handleImageUpload}
+                              disabled={isUploading}
+                            />
+                          </label>
+                        </Button>
+                        <FormControl>
+                          <Input type="url" placeholder="Or paste an image URL" {...field} />
+                        </FormControl>
+                      </div>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting || isUploading}>
+                {form.formState.isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Product"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
\ No newline at end of file
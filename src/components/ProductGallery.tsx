@@ -0,0 +1,130 @@
+import { useState, useEffect } from "react";
+import { ZoomIn } from "lucide-react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { getProductImageUrl, PLACEHOLDER_IMAGE } from "@/lib/product-images";
+
+interface ProductGalleryProps {
+  images: string[];
+  alt: string;
+}
+
+export default function ProductGallery({ images, alt }: ProductGalleryProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const [isZoomed, setIsZoomed] = useState(false);
+  const [zoomOrigin, setZoomOrigin] = useState("50% 50%");
+
+  const slides = images.length > 0 ? images : [PLACEHOLDER_IMAGE];
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setSelectedIndex(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    api.on("reInit", onSelect);
+
+    return () => {
+      api.off("select", onSelect);
+      api.off("reInit", onSelect);
+    };
+  }, [api]);
+
+  const handleLightboxChange = (open: boolean) => {
+    setIsLightboxOpen(open);
+    setIsZoomed(false);
+  };
+
+  const handleZoomMove = (e: React.MouseEvent<HTMLImageElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * 100;
+    const y = ((e.clientY - rect.top) / rect.height) * 100;
+    setZoomOrigin(`${x}% ${y}%`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Carousel setApi={setApi} className="relative">
+        <CarouselContent>
+          {slides.map((image, index) => (
+            <CarouselItem key={`${image}-${index}`}>
+              <button
+                type="button"
+                onClick={() => setIsLightboxOpen(true)}
+                className="group relative block w-full aspect-square overflow-hidden rounded-lg bg-surface cursor-zoom-in"
+              >
+                <img
+                  src={getProductImageUrl(image, "detail")}
+                  alt={slides.length > 1 ? `${alt} (${index + 1} of ${slides.length})` : alt}
+                  className="w-full h-full object-cover"
+                />
+                <span className="absolute bottom-3 right-3 rounded-full bg-background/80 p-2 opacity-0 transition-opacity group-hover:opacity-100">
+                  <ZoomIn className="h-4 w-4" />
+                </span>
+              </button>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {slides.length > 1 && (
+          <>
+            <CarouselPrevious className="left-3" />
+            <CarouselNext className="right-3" />
+          </>
+        )}
+      </Carousel>
+
+      {/* Thumbnails */}
+      {slides.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {slides.map((image, index) => (
+            <button
+              key={`${image}-${index}`}
+              type="button"
+              onClick={() => api?.scrollTo(index)}
+              className={cn(
+                "w-20 h-20 flex-shrink-0 overflow-hidden rounded-md border-2 transition-colors",
+                index === selectedIndex ? "border-primary" : "border-transparent opacity-70 hover:opacity-100"
+              )}
+            >
+              <img
+                src={getProductImageUrl(image, "cart")}
+                alt={`${alt} thumbnail ${index + 1}`}
+                className="w-full h-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Lightbox */}
+      <Dialog open={isLightboxOpen} onOpenChange={handleLightboxChange}>
+        <DialogContent className="max-w-4xl p-2">
+          <DialogTitle className="sr-only">{alt}</DialogTitle>
+          <div className="overflow-hidden rounded-md">
+            <img
+              src={slides[selectedIndex] ?? PLACEHOLDER_IMAGE}
+              alt={alt}
+              onClick={() => setIsZoomed(!isZoomed)}
+              onMouseMove={handleZoomMove}
+              style={{ transformOrigin: zoomOrigin }}
+              className={cn(
+                "w-full max-h-[80vh] object-contain transition-transform duration-200",
+                isZoomed ? "scale-[2] cursor-zoom-out" : "cursor-zoom-in"
+              )}
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,223 @@
+import { useState, useEffect, useCallback } from "react";
+import { ArrowLeft, ArrowRight, Loader2, Trash2, Upload } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { getProductImageUrl, removeProductImage, uploadProductImage } from "@/lib/product-images";
+
+interface ProductImage {
+  id: string;
+  url: string;
+  position: number;
+}
+
+interface ProductImageManagerProps {
+  productId: string;
+  vendorId: string;
+}
+
+export default function ProductImageManager({ productId, vendorId }: ProductImageManagerProps) {
+  const [images, setImages] = useState<ProductImage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchImages = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('product_images')
+        .select('id, url, position')
+        .eq('product_id', productId)
+        .order('position')
+        .order('created_at');
+
+      if (error) throw error;
+
+      setImages(data || []);
+    } catch (error) {
+      console.error('Error fetching product images:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    fetchImages();
+  }, [fetchImages]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+
+    try {
+      let position = images.length > 0 ? images[images.length - 1].position + 1 : 0;
+      for (const file of files) {
+        const url = await uploadProductImage(file, vendorId);
+        const { error } = await supabase
+          .from('product_images')
+          .insert({ product_id: productId, url, position: position++ });
+
+        if (error) throw error;
+      }
+
+      await fetchImages();
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      toast({
+        title: "Upload failed",
+        description: "Failed to upload the image. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const current = images[index];
+    const target = images[index + direction];
+    if (!current || !target) return;
+
+    setBusyId(current.id);
+
+    try {
+      // Positions may collide after deletes, so reassign from the list order
+      const reordered = [...images];
+      reordered[index] = target;
+      reordered[index + direction] = current;
+
+      const updates = reordered.map((image, position) =>
+        supabase.from('product_images').update({ position }).eq('id', image.id)
+      );
+      const results = await Promise.all(updates);
+      const failed = results.find((result) => result.error);
+      if (failed) throw failed.error;
+
+      await fetchImages();
+    } catch (error) {
+      console.error('Error reordering images:', error);
+      toast({
+        title: "Reorder failed",
+        description: "Failed to reorder images. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (image: ProductImage) => {
+    setBusyId(image.id);
+
+    try {
+      const { error } = await supabase
+        .from('product_images')
+        .delete()
+        .eq('id', image.id);
+
+      if (error) throw error;
+
+      // The row is gone either way; a leftover file is not worth failing over
+      removeProductImage(image.url).catch((storageError) =>
+        console.error('Error removing image file:', storageError)
+      );
+
+      await fetchImages();
+    } catch (error) {
+      console.error('Error deleting image:', error);
+      toast({
+        title: "Delete failed",
+        description: "Failed to delete the image. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Images</p>
+        <Button type="button" variant="outline" size="sm" disabled={isUploading} asChild>
+          <label className="cursor-pointer">
+            {isUploading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            {isUploading ? "Uploading..." : "Add Images"}
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/gif"
+              multiple
+              className="sr-only"
+              onChange={handleUpload}
+              disabled={isUploading}
+            />
+          </label>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading images...</p>
+      ) : images.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No images yet. The first image is used as the cover.</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+          {images.map((image, index) => (
+            <div key={image.id} className="space-y-1">
+              <div className="relative">
+                <img
+                  src={getProductImageUrl(image.url, "cart")}
+                  alt={`Product image ${index + 1}`}
+                  className="w-full aspect-square object-cover rounded-md border"
+                />
+                {index === 0 && (
+                  <Badge className="absolute left-1 top-1 text-[10px] px-1.5 py-0">Cover</Badge>
+                )}
+              </div>
+              <div className="flex justify-between">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0 || busyId !== null}
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                  onClick={() => handleDelete(image)}
+                  disabled={busyId !== null}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === images.length - 1 || busyId !== null}
+                >
+                  <ArrowRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
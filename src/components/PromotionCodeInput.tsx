@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { Loader2, Tag, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCart } from "@/hooks/use-cart";
+import type { AppliedPromotion } from "@/lib/promotions";
+
+interface PromotionCodeInputProps {
+  promotion: AppliedPromotion | null;
+  error: string | null;
+  isChecking: boolean;
+}
+
+export default function PromotionCodeInput({ promotion, error, isChecking }: PromotionCodeInputProps) {
+  const { promotionCode, setPromotionCode } = useCart();
+  const [code, setCode] = useState("");
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setPromotionCode(code);
+    setCode("");
+  };
+
+  if (promotionCode && !error) {
+    return (
+      <div className="flex items-center justify-between gap-2 rounded-md border border-dashed px-3 py-2">
+        <div className="flex items-center gap-2 text-sm">
+          {isChecking ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Tag className="h-4 w-4 text-accent" />
+          )}
+          <span className="font-medium">{promotionCode}</span>
+          {promotion?.description && (
+            <span className="text-muted-foreground">{promotion.description}</span>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={() => setPromotionCode(null)}
+          aria-label="Remove promotion code"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Promotion code"
+          aria-label="Promotion code"
+        />
+        <Button type="submit" variant="outline" disabled={!code.trim()}>
+          Apply
+        </Button>
+      </div>
+      {error && (
+        <p className="text-sm text-destructive">
+          {promotionCode}: {error}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Loader2, ShoppingCart, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useCartValidation } from "@/hooks/use-cart-validation";
+import { getCartLineKey } from "@/lib/cart";
+import { getProductImageUrl } from "@/lib/product-images";
+import type { SavedItem } from "@/lib/saved-items";
+
+interface SavedItemsListProps {
+  items: SavedItem[];
+  onMoveToCart: (item: SavedItem) => Promise<void>;
+  onRemove: (item: SavedItem) => Promise<void>;
+}
+
+export default function SavedItemsList({ items, onMoveToCart, onRemove }: SavedItemsListProps) {
+  const { lines } = useCartValidation(items);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const run = async (item: SavedItem, action: (item: SavedItem) => Promise<void>) => {
+    setBusyKey(getCartLineKey(item));
+    try {
+      await action(item);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const renderStatus = (item: SavedItem) => {
+    const { current, issue } = lines[getCartLineKey(item)] ?? {};
+    if (!issue) return null;
+
+    if (issue.type === "unavailable") {
+      return <Badge variant="destructive">{current ? "Out of stock" : "No longer available"}</Badge>;
+    }
+    if (issue.type === "reduced_stock") {
+      return <Badge variant="outline">Only {issue.stock} left</Badge>;
+    }
+    return (
+      <Badge variant={issue.price < item.price ? "secondary" : "outline"}>
+        Price {issue.price < item.price ? "dropped" : "changed"} to ${issue.price.toFixed(2)}
+      </Badge>
+    );
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">Saved for Later ({items.length})</h2>
+
+      {items.map((item) => {
+        const key = getCartLineKey(item);
+        const isUnavailable = lines[key]?.issue?.type === "unavailable";
+
+        return (
+          <Card key={key}>
+            <CardContent className="p-4">
+              <div className="flex gap-4">
+                <div className="w-16 h-16 flex-shrink-0">
+                  <img
+                    src={getProductImageUrl(item.image, "cart")}
+                    alt={item.name}
+                    className={`w-full h-full object-cover rounded-md ${isUnavailable ? "opacity-50" : ""}`}
+                  />
+                </div>
+
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h3 className="font-semibold">{item.name}</h3>
+                      {item.variantLabel && <p className="text-sm">{item.variantLabel}</p>}
+                      <p className="text-sm text-muted-foreground">
+                        ${item.price.toFixed(2)} when saved
+                      </p>
+                    </div>
+                    {renderStatus(item)}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => run(item, onMoveToCart)}
+                      disabled={isUnavailable || busyKey !== null}
+                    >
+                      {busyKey === key ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <ShoppingCart className="mr-2 h-4 w-4" />
+                      )}
+                      Move to Cart
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => run(item, onRemove)}
+                      disabled={busyKey !== null}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useFormContext } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ShippingAddress } from "@/lib/orders";
+import type { ShippingCountry } from "@/lib/shipping-countries";
+
+interface ShippingAddressFieldsProps {
+  countries: ShippingCountry[];
+}
+
+type TextField = Exclude<keyof ShippingAddress, "state" | "country">;
+
+/**
+ * The contact and address fields of a shipping address, for use inside a
+ * `Form` whose values include a `ShippingAddress`. Labels and the region list
+ * follow the selected country.
+ */
+export default function ShippingAddressFields({ countries }: ShippingAddressFieldsProps) {
+  const form = useFormContext<ShippingAddress>();
+  const country = countries.find((c) => c.code === form.watch("country"));
+
+  const renderTextField = (name: TextField, label: string, props: React.ComponentProps<typeof Input> = {}) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label} *</FormLabel>
+          <FormControl>
+            <Input {...props} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderTextField("first_name", "First Name", { autoComplete: "given-name" })}
+        {renderTextField("last_name", "Last Name", { autoComplete: "family-name" })}
+      </div>
+
+      {renderTextField("email", "Email", { type: "email", autoComplete: "email" })}
+      {renderTextField("phone", "Phone", { type: "tel", autoComplete: "tel" })}
+
+      <FormField
+        control={form.control}
+        name="country"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Country *</FormLabel>
+            <Select
+              value={field.value}
+              onValueChange={(value) => {
+                field.onChange(value);
+                // Region codes belong to a country, so the old one no longer applies
+                form.setValue("state", "");
+              }}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a country" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {countries.map((option) => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {renderTextField("address", "Address", { autoComplete: "street-address" })}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {renderTextField("city", "City", { autoComplete: "address-level2" })}
+        <FormField
+          control={form.control}
+          name="state"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{country?.region_label ?? "State"} *</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange} disabled={!country}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {country?.regions.map((region) => (
+                    <SelectItem key={region.code} value={region.code}>
+                      {region.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {renderTextField("zip_code", country?.postal_code_label ?? "ZIP code", { autoComplete: "postal-code" })}
+      </div>
+    </div>
+  );
+}
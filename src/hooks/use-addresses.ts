@@ -0,0 +1,41 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import {
+  deleteAddress,
+  fetchAddresses,
+  saveAddress,
+  setDefaultAddress,
+  type AddressInput,
+} from "@/lib/addresses"
+
+/** The address book of the signed-in user; pass their id once it is known. */
+export function useAddresses(userId: string | null | undefined) {
+  const queryClient = useQueryClient()
+  const queryKey = ["addresses", userId]
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: fetchAddresses,
+    enabled: !!userId,
+  })
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ["addresses"] })
+
+  const save = useMutation({
+    mutationFn: ({ address, id }: { address: AddressInput; id?: string }) => saveAddress(address, id),
+    onSuccess,
+  })
+  const remove = useMutation({ mutationFn: deleteAddress, onSuccess })
+  const makeDefault = useMutation({ mutationFn: setDefaultAddress, onSuccess })
+
+  const addresses = data ?? []
+
+  return {
+    addresses,
+    defaultAddress: addresses.find((address) => address.is_default) ?? null,
+    isLoading: isLoading && !!userId,
+    saveAddress: (address: AddressInput, id?: string) => save.mutateAsync({ address, id }),
+    deleteAddress: remove.mutateAsync,
+    setDefaultAddress: makeDefault.mutateAsync,
+  }
+}
@@ -0,0 +1,80 @@
+import * as React from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { supabase } from "@/integrations/supabase/client"
+import {
+  fetchCartProducts,
+  getCartLineIssue,
+  getCartLineKey,
+  getCurrentCartLine,
+  type CartItem,
+  type CartLineIssue,
+} from "@/lib/cart"
+
+export interface CartLineStatus {
+  current: { price: number; stock: number } | null
+  issue: CartLineIssue | null
+}
+
+/**
+ * Checks cart lines against the catalog, refetching whenever one of their
+ * products or variants changes. Lines are keyed by `getCartLineKey`.
+ */
+export function useCartValidation(items: CartItem[]) {
+  const queryClient = useQueryClient()
+  // The cart and the saved list can watch the same products on one page
+  const channelId = React.useId()
+  const productIds = React.useMemo(
+    () => [...new Set(items.map((item) => item.id))].sort(),
+    [items]
+  )
+  const idsKey = productIds.join(",")
+
+  const { data: products, isLoading } = useQuery({
+    queryKey: ["cart-products", productIds],
+    queryFn: () => fetchCartProducts(productIds),
+    enabled: productIds.length > 0,
+  })
+
+  React.useEffect(() => {
+    if (!idsKey) return
+
+    const refetch = () => queryClient.invalidateQueries({ queryKey: ["cart-products"] })
+    const channel = supabase
+      .channel(`cart-products-${channelId}-${idsKey}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "products", filter: `id=in.(${idsKey})` },
+        refetch
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "product_variants", filter: `product_id=in.(${idsKey})` },
+        refetch
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [idsKey, channelId, queryClient])
+
+  const lines = React.useMemo(() => {
+    const statuses: Record<string, CartLineStatus> = {}
+    if (!products) return statuses
+
+    for (const item of items) {
+      const current = getCurrentCartLine(
+        item,
+        products.find((product) => product.id === item.id)
+      )
+      statuses[getCartLineKey(item)] = { current, issue: getCartLineIssue(item, current) }
+    }
+
+    return statuses
+  }, [items, products])
+
+  const hasIssues = Object.values(lines).some((line) => line.issue)
+
+  return { lines, hasIssues, isValidating: isLoading && productIds.length > 0 }
+}
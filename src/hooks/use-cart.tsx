@@ -0,0 +1,289 @@
+import * as React from "react"
+
+import { supabase } from "@/integrations/supabase/client"
+import { useToast } from "@/hooks/use-toast"
+import { publishCartChange, subscribeToCartChanges } from "@/lib/cart-events"
+import { normalizePromotionCode, PROMOTION_CODE_STORAGE_KEY } from "@/lib/promotions"
+import {
+  addCartItem,
+  clearSavedCart,
+  clearServerCart,
+  fetchServerCart,
+  getCartLineKey,
+  getCartTotals,
+  loadCart,
+  mergeGuestCart,
+  removeCartItem,
+  saveCart,
+  setCartItemQuantity,
+  setServerCartItem,
+  updateCartItem,
+  type CartItem,
+  type CartProduct,
+} from "@/lib/cart"
+
+type CartContextValue = {
+  items: CartItem[]
+  /** The signed-in user whose server cart this is, or null for the guest cart. */
+  userId: string | null
+  /** True until the cart for the current session (guest or signed in) is loaded. */
+  isLoading: boolean
+  totalItems: number
+  subtotal: number
+  /** Promotion code entered in the cart or at checkout, checked by `usePromotion`. */
+  promotionCode: string | null
+  setPromotionCode: (code: string | null) => void
+  isMiniCartOpen: boolean
+  setMiniCartOpen: (open: boolean) => void
+  /** Adds a product, clamped to stock, and opens the mini cart. Returns how many units were added. */
+  addItem: (product: CartProduct, quantity?: number) => number
+  removeItem: (key: string) => void
+  setQuantity: (key: string, quantity: number) => void
+  /** Refreshes a line's price or stock, e.g. after the catalog changed. */
+  updateItem: (key: string, changes: Partial<Pick<CartItem, "price" | "stock" | "quantity">>) => void
+  clear: () => void
+}
+
+const CartContext = React.createContext<CartContextValue | null>(null)
+
+/**
+ * Guests keep their cart in localStorage. Signed-in users' carts live on the
+ * server: the guest cart is merged into it on sign-in, and every change is
+ * applied locally first and then written through.
+ */
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [items, setItems] = React.useState<CartItem[]>(loadCart)
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [isMiniCartOpen, setMiniCartOpen] = React.useState(false)
+  const [userId, setUserId] = React.useState<string | null>(null)
+  const [promotionCode, setPromotionCodeState] = React.useState<string | null>(() =>
+    localStorage.getItem(PROMOTION_CODE_STORAGE_KEY)
+  )
+  const itemsRef = React.useRef(items)
+  const userIdRef = React.useRef<string | null>(null)
+  const syncSeqRef = React.useRef(0)
+  const { toast } = useToast()
+
+  const apply = React.useCallback((next: CartItem[], publish = true) => {
+    itemsRef.current = next
+    setItems(next)
+    if (publish) publishCartChange({ items: next, userId: userIdRef.current })
+  }, [])
+
+  const commit = React.useCallback(
+    (next: CartItem[]) => {
+      if (!userIdRef.current) saveCart(next)
+      apply(next)
+    },
+    [apply]
+  )
+
+  const loadServerCart = React.useCallback(async () => {
+    const seq = ++syncSeqRef.current
+
+    try {
+      const guestItems = loadCart()
+      const next =
+        guestItems.length > 0 ? await mergeGuestCart(guestItems) : await fetchServerCart()
+
+      // The guest cart now lives on the server, so don't merge it twice
+      clearSavedCart()
+      if (seq === syncSeqRef.current) apply(next)
+    } catch (error) {
+      console.error("Error loading cart:", error)
+      toast({
+        title: "Error loading cart",
+        description: "There was an issue loading your cart.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [apply, toast])
+
+  // Writes a change through to the server cart. Only the latest response is
+  // applied, so a slow request can't undo a newer local change.
+  const sync = React.useCallback(
+    (request: () => Promise<CartItem[] | void>) => {
+      if (!userIdRef.current) return
+
+      const seq = ++syncSeqRef.current
+      request()
+        .then((next) => {
+          if (next && seq === syncSeqRef.current) apply(next)
+        })
+        .catch((error) => {
+          console.error("Error saving cart:", error)
+          toast({
+            title: "Cart not saved",
+            description: "Your last change could not be saved. Please try again.",
+            variant: "destructive",
+          })
+          loadServerCart()
+        })
+    },
+    [apply, loadServerCart, toast]
+  )
+
+  React.useEffect(() => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      const userId = session?.user.id ?? null
+      if (userId && userId === userIdRef.current) return
+
+      userIdRef.current = userId
+      setUserId(userId)
+      if (userId) {
+        // Supabase calls must not run inside the auth callback itself
+        setTimeout(loadServerCart, 0)
+      } else {
+        syncSeqRef.current++
+        apply(loadCart())
+        setIsLoading(false)
+      }
+    })
+
+    return () => subscription.unsubscribe()
+  }, [apply, loadServerCart])
+
+  // Keep other open tabs showing the same cart
+  React.useEffect(
+    () =>
+      subscribeToCartChanges((change) => {
+        if (change.userId === userIdRef.current) apply(change.items, false)
+      }),
+    [apply]
+  )
+
+  const addItem = React.useCallback(
+    (product: CartProduct, quantity = 1) => {
+      const { items: next, added } = addCartItem(itemsRef.current, product, quantity)
+
+      if (added === 0) {
+        toast({
+          title: "Stock limit reached",
+          description:
+            product.stock > 0
+              ? `Only ${product.stock} available, and they're all in your cart.`
+              : `${product.name} is out of stock.`,
+          variant: "destructive",
+        })
+        return 0
+      }
+
+      commit(next)
+      const key = getCartLineKey({ id: product.id, variantId: product.variantId ?? null })
+      const line = next.find((item) => getCartLineKey(item) === key)
+      sync(() => setServerCartItem(line, line.quantity))
+      setMiniCartOpen(true)
+      if (added < quantity) {
+        toast({
+          title: "Added to cart",
+          description: `${added} ${product.name}(s) added to your cart. Only ${product.stock} available in stock.`,
+        })
+      }
+      return added
+    },
+    [commit, sync, toast]
+  )
+
+  const setQuantity = React.useCallback(
+    (key: string, quantity: number) => {
+      const { items: next, clamped } = setCartItemQuantity(itemsRef.current, key, quantity)
+      const line = itemsRef.current.find((i) => getCartLineKey(i) === key)
+      const item = next.find((i) => getCartLineKey(i) === key)
+
+      if (clamped && item) {
+        toast({
+          title: "Stock limit reached",
+          description: `Only ${item.stock} items available in stock.`,
+          variant: "destructive",
+        })
+      }
+      commit(next)
+      if (line) sync(() => setServerCartItem(line, item?.quantity ?? 0))
+    },
+    [commit, sync, toast]
+  )
+
+  const removeItem = React.useCallback(
+    (key: string) => {
+      const line = itemsRef.current.find((i) => getCartLineKey(i) === key)
+      commit(removeCartItem(itemsRef.current, key))
+      if (line) sync(() => setServerCartItem(line, 0))
+    },
+    [commit, sync]
+  )
+
+  const updateItem = React.useCallback(
+    (key: string, changes: Partial<Pick<CartItem, "price" | "stock" | "quantity">>) => {
+      const line = itemsRef.current.find((i) => getCartLineKey(i) === key)
+      commit(updateCartItem(itemsRef.current, key, changes))
+      // Price and stock aren't stored server-side, only the quantity is
+      if (line && changes.quantity !== undefined && changes.quantity !== line.quantity) {
+        sync(() => setServerCartItem(line, changes.quantity))
+      }
+    },
+    [commit, sync]
+  )
+
+  const setPromotionCode = React.useCallback((code: string | null) => {
+    const normalized = code ? normalizePromotionCode(code) : null
+    if (normalized) {
+      localStorage.setItem(PROMOTION_CODE_STORAGE_KEY, normalized)
+    } else {
+      localStorage.removeItem(PROMOTION_CODE_STORAGE_KEY)
+    }
+    setPromotionCodeState(normalized || null)
+  }, [])
+
+  const clear = React.useCallback(() => {
+    commit([])
+    setPromotionCode(null)
+    sync(() => clearServerCart())
+  }, [commit, setPromotionCode, sync])
+
+  const value = React.useMemo(
+    () => ({
+      items,
+      userId,
+      isLoading,
+      ...getCartTotals(items),
+      promotionCode,
+      setPromotionCode,
+      isMiniCartOpen,
+      setMiniCartOpen,
+      addItem,
+      removeItem,
+      setQuantity,
+      updateItem,
+      clear,
+    }),
+    [
+      items,
+      userId,
+      isLoading,
+      promotionCode,
+      setPromotionCode,
+      isMiniCartOpen,
+      addItem,
+      removeItem,
+      setQuantity,
+      updateItem,
+      clear,
+    ]
+  )
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>
+}
+
+export function useCart() {
+  const context = React.useContext(CartContext)
+
+  if (!context) {
+    throw new Error("useCart must be used within a <CartProvider />")
+  }
+
+  return context
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { fetchCategories } from "@/lib/categories"
+
+export function useCategories() {
+  const { data, isLoading } = useQuery({
+    queryKey: ["categories"],
+    queryFn: fetchCategories,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  return { categories: data ?? [], isLoading }
+}
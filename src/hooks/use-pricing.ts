@@ -0,0 +1,46 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+
+import {
+  calculatePricing,
+  fetchPricingRules,
+  fetchProductWeights,
+  type PricingOptions,
+  type PricingRules,
+} from "@/lib/pricing"
+
+const NO_RULES: PricingRules = { taxRates: [], shippingRates: [] }
+
+/** Prices cart lines with the store's tax and shipping rules and the products' weights. */
+export function usePricing(
+  lines: { id: string; price: number; quantity: number }[],
+  { country, region, discount, freeShipping }: PricingOptions = {}
+) {
+  const { data: rules, isLoading } = useQuery({
+    queryKey: ["pricing-rules"],
+    queryFn: fetchPricingRules,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const productIds = React.useMemo(
+    () => [...new Set(lines.map((line) => line.id))].sort(),
+    [lines]
+  )
+  const { data: weights, isLoading: isLoadingWeights } = useQuery({
+    queryKey: ["product-weights", productIds],
+    queryFn: () => fetchProductWeights(productIds),
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const pricing = React.useMemo(
+    () =>
+      calculatePricing(
+        lines.map((line) => ({ ...line, weight: weights?.[line.id] ?? 0 })),
+        rules ?? NO_RULES,
+        { country, region, discount, freeShipping }
+      ),
+    [lines, weights, rules, country, region, discount, freeShipping]
+  )
+
+  return { pricing, isLoading: isLoading || isLoadingWeights }
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { useCart } from "@/hooks/use-cart"
+import { checkPromotion } from "@/lib/promotions"
+
+/** Checks the cart's promotion code against its current lines. */
+export function usePromotion() {
+  const { items, promotionCode } = useCart()
+  const lines = items.map(({ id, variantId, quantity }) => ({ id, variantId, quantity }))
+
+  const { data, isFetching } = useQuery({
+    queryKey: ["promotion", promotionCode, lines],
+    queryFn: () => checkPromotion(promotionCode, lines),
+    enabled: !!promotionCode && lines.length > 0,
+  })
+
+  return {
+    promotion: promotionCode ? data?.promotion ?? null : null,
+    error: promotionCode ? data?.error ?? null : null,
+    isChecking: isFetching,
+  }
+}
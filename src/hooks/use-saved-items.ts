@@ -0,0 +1,135 @@
+import * as React from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { useCart } from "@/hooks/use-cart"
+import { useToast } from "@/hooks/use-toast"
+import { fetchCartProducts, getCartLineKey, getCurrentCartLine, type CartItem } from "@/lib/cart"
+import {
+  addSavedItem,
+  clearSavedItems,
+  fetchServerSavedItems,
+  loadSavedItems,
+  removeServerSavedItem,
+  removeSavedItem,
+  saveSavedItems,
+  saveServerSavedItems,
+  type SavedItem,
+} from "@/lib/saved-items"
+
+/**
+ * The save-for-later list: in localStorage for guests, on the server once
+ * signed in. A guest list is moved to the account on sign-in, keeping any
+ * item the account had already saved.
+ */
+export function useSavedItems() {
+  const { userId, isLoading: isCartLoading, addItem, removeItem } = useCart()
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  const { data: savedItems = [], isLoading } = useQuery({
+    queryKey: ["saved-items", userId],
+    enabled: !isCartLoading,
+    queryFn: async () => {
+      if (!userId) return loadSavedItems()
+
+      const guestItems = loadSavedItems()
+      if (guestItems.length > 0) {
+        await saveServerSavedItems(guestItems, true)
+        clearSavedItems()
+      }
+      return fetchServerSavedItems()
+    },
+  })
+
+  const refresh = React.useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ["saved-items"] }),
+    [queryClient]
+  )
+
+  const deleteSavedItem = React.useCallback(
+    async (item: SavedItem) => {
+      if (userId) {
+        await removeServerSavedItem(item)
+      } else {
+        saveSavedItems(removeSavedItem(loadSavedItems(), getCartLineKey(item)))
+      }
+      await refresh()
+    },
+    [userId, refresh]
+  )
+
+  const saveForLater = React.useCallback(
+    async (item: CartItem) => {
+      try {
+        if (userId) {
+          await saveServerSavedItems([item])
+        } else {
+          saveSavedItems(addSavedItem(loadSavedItems(), item))
+        }
+        removeItem(getCartLineKey(item))
+        await refresh()
+
+        toast({
+          title: "Saved for later",
+          description: `${item.name} has been moved to your saved items.`,
+        })
+      } catch (error) {
+        console.error("Error saving item for later:", error)
+        toast({
+          title: "Error",
+          description: "Failed to save the item for later. Please try again.",
+          variant: "destructive",
+        })
+      }
+    },
+    [userId, removeItem, refresh, toast]
+  )
+
+  // Stock is re-checked here rather than trusting what was shown on the page
+  const moveToCart = React.useCallback(
+    async (item: SavedItem) => {
+      try {
+        const [product] = await fetchCartProducts([item.id])
+        const current = getCurrentCartLine(item, product)
+
+        if (!current || current.stock === 0) {
+          toast({
+            title: "Out of stock",
+            description: `${item.name} is currently unavailable. It will stay in your saved items.`,
+            variant: "destructive",
+          })
+          return
+        }
+
+        const added = addItem({ ...item, price: current.price, stock: current.stock }, item.quantity)
+        if (added > 0) await deleteSavedItem(item)
+      } catch (error) {
+        console.error("Error moving saved item to cart:", error)
+        toast({
+          title: "Error",
+          description: "Failed to move the item to your cart. Please try again.",
+          variant: "destructive",
+        })
+      }
+    },
+    [addItem, deleteSavedItem, toast]
+  )
+
+  const removeFromSaved = React.useCallback(
+    async (item: SavedItem) => {
+      try {
+        await deleteSavedItem(item)
+      } catch (error) {
+        console.error("Error removing saved item:", error)
+        toast({
+          title: "Error",
+          description: "Failed to remove the saved item. Please try again.",
+          variant: "destructive",
+        })
+      }
+    },
+    [deleteSavedItem, toast]
+  )
+
+  return { savedItems, isLoading, saveForLater, moveToCart, removeFromSaved }
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { fetchShippingCountries } from "@/lib/shipping-countries"
+
+export function useShippingCountries() {
+  const { data, isLoading } = useQuery({
+    queryKey: ["shipping-countries"],
+    queryFn: fetchShippingCountries,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  return { countries: data ?? [], isLoading }
+}
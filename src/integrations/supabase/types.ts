@@ -14,62 +14,645 @@ export type Database = {
   }
   public: {
     Tables: {
+      addresses: {
+        Row: {
+          address: string
+          city: string
+          country: string
+          created_at: string
+          email: string
+          first_name: string
+          id: string
+          is_default: boolean
+          label: string | null
+          last_name: string
+          phone: string
+          state: string
+          user_id: string
+          zip_code: string
+        }
+        Insert: {
+          address: string
+          city: string
+          country?: string
+          created_at?: string
+          email: string
+          first_name: string
+          id?: string
+          is_default?: boolean
+          label?: string | null
+          last_name: string
+          phone: string
+          state: string
+          user_id?: string
+          zip_code: string
+        }
+        Update: {
+          address?: string
+          city?: string
+          country?: string
+          created_at?: string
+          email?: string
+          first_name?: string
+          id?: string
+          is_default?: boolean
+          label?: string | null
+          last_name?: string
+          phone?: string
+          state?: string
+          user_id?: string
+          zip_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "addresses_country_fkey"
+            columns: ["country"]
+            isOneToOne: false
+            referencedRelation: "shipping_countries"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      cart_items: {
+        Row: {
+          cart_id: string
+          created_at: string
+          id: string
+          product_id: string
+          quantity: number
+          variant_id: string | null
+        }
+        Insert: {
+          cart_id: string
+          created_at?: string
+          id?: string
+          product_id: string
+          quantity: number
+          variant_id?: string | null
+        }
+        Update: {
+          cart_id?: string
+          created_at?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cart_items_cart_id_fkey"
+            columns: ["cart_id"]
+            isOneToOne: false
+            referencedRelation: "carts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      carts: {
+        Row: {
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          position: number
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          position?: number
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          position?: number
+          slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          created_at: string
+          id: string
+          order_id: string
+          product_id: string | null
+          product_name: string
+          quantity: number
+          unit_price: number
+          variant_id: string | null
+          variant_name: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          order_id: string
+          product_id?: string | null
+          product_name: string
+          quantity: number
+          unit_price: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          order_id?: string
+          product_id?: string | null
+          product_name?: string
+          quantity?: number
+          unit_price?: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          actor: string
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          actor: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          actor?: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
           created_at: string | null
+          discount: number
+          guest_email: string | null
+          guest_token_hash: string | null
           id: string
-          products: Json
-          status: string | null
+          idempotency_key_hash: string | null
+          promotion_code: string | null
+          promotion_id: string | null
+          shipping: number
+          shipping_address: Json | null
+          status: string
+          subtotal: number
+          tax: number
           total: number
-          user_id: string
+          user_id: string | null
         }
         Insert: {
           created_at?: string | null
+          discount?: number
+          guest_email?: string | null
+          guest_token_hash?: string | null
           id?: string
-          products: Json
-          status?: string | null
+          idempotency_key_hash?: string | null
+          promotion_code?: string | null
+          promotion_id?: string | null
+          shipping?: number
+          shipping_address?: Json | null
+          status?: string
+          subtotal?: number
+          tax?: number
           total: number
-          user_id: string
+          user_id?: string | null
         }
         Update: {
           created_at?: string | null
+          discount?: number
+          guest_email?: string | null
+          guest_token_hash?: string | null
           id?: string
-          products?: Json
-          status?: string | null
+          idempotency_key_hash?: string | null
+          promotion_code?: string | null
+          promotion_id?: string | null
+          shipping?: number
+          shipping_address?: Json | null
+          status?: string
+          subtotal?: number
+          tax?: number
           total?: number
-          user_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_events: {
+        Row: {
+          created_at: string
+          id: string
+          payload: Json
+          payment_id: string | null
+          provider: string
+          provider_event_id: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          payload: Json
+          payment_id?: string | null
+          provider: string
+          provider_event_id: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          payload?: Json
+          payment_id?: string | null
+          provider?: string
+          provider_event_id?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_events_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_settings: {
+        Row: {
+          id: boolean
+          mock_gateway_enabled: boolean
+        }
+        Insert: {
+          id?: boolean
+          mock_gateway_enabled?: boolean
+        }
+        Update: {
+          id?: boolean
+          mock_gateway_enabled?: boolean
         }
         Relationships: []
       }
+      payments: {
+        Row: {
+          amount: number
+          amount_refunded: number
+          created_at: string
+          failure_reason: string | null
+          id: string
+          order_id: string
+          provider: string
+          provider_payment_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          amount_refunded?: number
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          order_id: string
+          provider: string
+          provider_payment_id: string
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          amount_refunded?: number
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          order_id?: string
+          provider?: string
+          provider_payment_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_images: {
+        Row: {
+          created_at: string
+          id: string
+          position: number
+          product_id: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          position?: number
+          product_id: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          position?: number
+          product_id?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_images_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_option_values: {
+        Row: {
+          id: string
+          option_id: string
+          position: number
+          value: string
+        }
+        Insert: {
+          id?: string
+          option_id: string
+          position?: number
+          value: string
+        }
+        Update: {
+          id?: string
+          option_id?: string
+          position?: number
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_option_values_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: false
+            referencedRelation: "product_options"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_options: {
+        Row: {
+          id: string
+          name: string
+          position: number
+          product_id: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          position?: number
+          product_id: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          position?: number
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_options_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variant_values: {
+        Row: {
+          option_value_id: string
+          variant_id: string
+        }
+        Insert: {
+          option_value_id: string
+          variant_id: string
+        }
+        Update: {
+          option_value_id?: string
+          variant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variant_values_option_value_id_fkey"
+            columns: ["option_value_id"]
+            isOneToOne: false
+            referencedRelation: "product_option_values"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_variant_values_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          created_at: string
+          id: string
+          price: number | null
+          product_id: string
+          sku: string
+          stock: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          price?: number | null
+          product_id: string
+          sku: string
+          stock?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          price?: number | null
+          product_id?: string
+          sku?: string
+          stock?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       products: {
         Row: {
           category: string | null
+          category_id: string | null
+          created_at: string
           description: string | null
+          has_variants: boolean
           id: string
           image: string | null
           name: string
           price: number
           stock: number
+          vendor_id: string | null
+          weight: number
         }
         Insert: {
           category?: string | null
+          category_id?: string | null
+          created_at?: string
           description?: string | null
+          has_variants?: boolean
           id?: string
           image?: string | null
           name: string
           price: number
           stock: number
+          vendor_id?: string | null
+          weight?: number
         }
         Update: {
           category?: string | null
+          category_id?: string | null
+          created_at?: string
           description?: string | null
+          has_variants?: boolean
           id?: string
           image?: string | null
           name?: string
           price?: number
           stock?: number
+          vendor_id?: string | null
+          weight?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -92,12 +675,326 @@ export type Database = {
         }
         Relationships: []
       }
+      promotions: {
+        Row: {
+          category_id: string | null
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_uses: number | null
+          min_subtotal: number
+          starts_at: string
+          uses: number
+        }
+        Insert: {
+          category_id?: string | null
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          discount_value?: number
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          min_subtotal?: number
+          starts_at?: string
+          uses?: number
+        }
+        Update: {
+          category_id?: string | null
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          min_subtotal?: number
+          starts_at?: string
+          uses?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_items: {
+        Row: {
+          created_at: string
+          id: string
+          price: number
+          product_id: string
+          quantity: number
+          user_id: string
+          variant_id: string | null
+          variant_label: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          price: number
+          product_id: string
+          quantity?: number
+          user_id?: string
+          variant_id?: string | null
+          variant_label?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          price?: number
+          product_id?: string
+          quantity?: number
+          user_id?: string
+          variant_id?: string | null
+          variant_label?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipping_countries: {
+        Row: {
+          code: string
+          name: string
+          phone_pattern: string
+          position: number
+          postal_code_label: string
+          postal_code_pattern: string
+          region_label: string
+        }
+        Insert: {
+          code: string
+          name: string
+          phone_pattern: string
+          position?: number
+          postal_code_label: string
+          postal_code_pattern: string
+          region_label: string
+        }
+        Update: {
+          code?: string
+          name?: string
+          phone_pattern?: string
+          position?: number
+          postal_code_label?: string
+          postal_code_pattern?: string
+          region_label?: string
+        }
+        Relationships: []
+      }
+      shipping_rates: {
+        Row: {
+          amount: number
+          id: string
+          min_subtotal: number | null
+          min_weight: number | null
+        }
+        Insert: {
+          amount: number
+          id?: string
+          min_subtotal?: number | null
+          min_weight?: number | null
+        }
+        Update: {
+          amount?: number
+          id?: string
+          min_subtotal?: number | null
+          min_weight?: number | null
+        }
+        Relationships: []
+      }
+      shipping_regions: {
+        Row: {
+          code: string
+          country_code: string
+          name: string
+        }
+        Insert: {
+          code: string
+          country_code: string
+          name: string
+        }
+        Update: {
+          code?: string
+          country_code?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipping_regions_country_code_fkey"
+            columns: ["country_code"]
+            isOneToOne: false
+            referencedRelation: "shipping_countries"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      tax_rates: {
+        Row: {
+          country: string
+          rate: number
+          region: string
+        }
+        Insert: {
+          country: string
+          rate: number
+          region: string
+        }
+        Update: {
+          country?: string
+          rate?: number
+          region?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      calculate_order_pricing: {
+        Args: {
+          items: Json
+          p_country: string
+          p_promotion?: Json
+          p_region: string
+        }
+        Returns: Json
+      }
+      cart_line_stock: {
+        Args: {
+          p_product_id: string
+          p_variant_id: string
+        }
+        Returns: number
+      }
+      check_promotion: {
+        Args: {
+          items: Json
+          p_code: string
+        }
+        Returns: Json
+      }
+      clear_cart: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      ensure_cart: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      expire_pending_orders: {
+        Args: {
+          p_max_age?: unknown
+        }
+        Returns: number
+      }
+      get_cart: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_guest_order: {
+        Args: {
+          p_access_token: string
+          p_order_id: string
+        }
+        Returns: Json
+      }
+      is_vendor: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      merge_cart: {
+        Args: {
+          items: Json
+        }
+        Returns: Json
+      }
+      order_status_transition_allowed: {
+        Args: {
+          p_from: string
+          p_to: string
+        }
+        Returns: boolean
+      }
+      owns_product: {
+        Args: {
+          p_product_id: string
+        }
+        Returns: boolean
+      }
+      place_order: {
+        Args: {
+          idempotency_key?: string
+          items: Json
+          promotion_code?: string
+          shipping_address: Json
+        }
+        Returns: Json
+      }
+      record_payment_event: {
+        Args: {
+          access_token?: string
+          event: Json
+        }
+        Returns: Json
+      }
+      set_cart_item: {
+        Args: {
+          p_product_id: string
+          p_quantity: number
+          p_variant_id: string
+        }
+        Returns: Json
+      }
+      update_order_status: {
+        Args: {
+          p_access_token?: string
+          p_note?: string
+          p_order_id: string
+          p_status: string
+        }
+        Returns: string
+      }
+      validate_shipping_address: {
+        Args: {
+          address: Json
+        }
+        Returns: Json
+      }
+      variant_label: {
+        Args: {
+          p_variant_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ShippingAddress } from "@/lib/orders";
+
+export interface Address extends ShippingAddress {
+  id: string;
+  label: string | null;
+  is_default: boolean;
+}
+
+export type AddressInput = ShippingAddress & {
+  label?: string | null;
+  is_default?: boolean;
+};
+
+const ADDRESS_SELECT =
+  "id, label, first_name, last_name, email, phone, address, city, state, zip_code, country, is_default";
+
+/** The signed-in user's addresses, default first. */
+export async function fetchAddresses(): Promise<Address[]> {
+  const { data, error } = await supabase
+    .from("addresses")
+    .select(ADDRESS_SELECT)
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  return data;
+}
+
+/** Creates an address, or updates it when an id is given. */
+export async function saveAddress(address: AddressInput, id?: string): Promise<Address> {
+  const query = id
+    ? supabase.from("addresses").update(address).eq("id", id)
+    : supabase.from("addresses").insert(address);
+  const { data, error } = await query.select(ADDRESS_SELECT).single();
+
+  if (error) throw error;
+
+  return data;
+}
+
+export async function deleteAddress(id: string) {
+  const { error } = await supabase.from("addresses").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/** The previous default is unset by the database. */
+export async function setDefaultAddress(id: string) {
+  const { error } = await supabase.from("addresses").update({ is_default: true }).eq("id", id);
+  if (error) throw error;
+}
+
+export function formatAddress(address: ShippingAddress) {
+  const line = `${address.address}, ${address.city}, ${address.state} ${address.zip_code}`;
+  return address.country ? `${line}, ${address.country}` : line;
+}
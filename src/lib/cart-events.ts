@@ -0,0 +1,36 @@
+import { CART_STORAGE_KEY, loadCart, type CartItem } from "@/lib/cart";
+
+const CART_CHANNEL_NAME = "cart";
+
+/** A cart change made in another tab. `userId` is null for the guest cart. */
+export interface CartChange {
+  items: CartItem[];
+  userId: string | null;
+}
+
+const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CART_CHANNEL_NAME) : null;
+
+/** Tells other tabs the cart changed. A tab never receives its own changes. */
+export function publishCartChange(change: CartChange) {
+  channel?.postMessage(change);
+}
+
+/**
+ * Listens for cart changes from other tabs. Signed-in carts are only
+ * broadcast; guest carts also arrive through the `storage` event, which
+ * covers browsers without BroadcastChannel. Returns an unsubscribe function.
+ */
+export function subscribeToCartChanges(listener: (change: CartChange) => void): () => void {
+  const onMessage = (event: MessageEvent<CartChange>) => listener(event.data);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === CART_STORAGE_KEY) listener({ items: loadCart(), userId: null });
+  };
+
+  channel?.addEventListener("message", onMessage);
+  window.addEventListener("storage", onStorage);
+
+  return () => {
+    channel?.removeEventListener("message", onMessage);
+    window.removeEventListener("storage", onStorage);
+  };
+}
@@ -0,0 +1,268 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export const CART_STORAGE_KEY = "cart";
+
+export interface CartItem {
+  id: string;
+  variantId: string | null;
+  variantLabel: string | null;
+  name: string;
+  price: number;
+  image: string | null;
+  stock: number;
+  category: string | null;
+  quantity: number;
+}
+
+/** The product fields copied into a cart line when it is added. */
+export type CartProduct = Omit<CartItem, "quantity" | "variantId" | "variantLabel"> & {
+  variantId?: string | null;
+  variantLabel?: string | null;
+};
+
+/** Lines for products with variants are keyed by variant, others by product. */
+export function getCartLineKey(item: Pick<CartItem, "id" | "variantId">): string {
+  return item.variantId ?? item.id;
+}
+
+const clampQuantity = (quantity: number, stock: number) =>
+  Math.max(0, Math.min(Math.floor(quantity), stock));
+
+const toCartItem = (product: CartProduct, quantity: number): CartItem => ({
+  id: product.id,
+  variantId: product.variantId ?? null,
+  variantLabel: product.variantLabel ?? null,
+  name: product.name,
+  price: product.price,
+  image: product.image ?? null,
+  stock: product.stock,
+  category: product.category ?? null,
+  quantity,
+});
+
+/**
+ * Adds `quantity` of a product to the cart, never exceeding its stock.
+ * Returns the new items and how many units were actually added.
+ */
+export function addCartItem(
+  items: CartItem[],
+  product: CartProduct,
+  quantity: number,
+): { items: CartItem[]; added: number } {
+  const key = getCartLineKey(toCartItem(product, 0));
+  const existing = items.find((item) => getCartLineKey(item) === key);
+  const current = existing?.quantity ?? 0;
+  const next = clampQuantity(current + quantity, product.stock);
+  const added = Math.max(0, next - current);
+
+  if (added === 0) return { items, added };
+
+  const updated = toCartItem(product, next);
+  return {
+    items: existing
+      ? items.map((item) => (getCartLineKey(item) === key ? updated : item))
+      : [...items, updated],
+    added,
+  };
+}
+
+/**
+ * Sets a line's quantity, clamped to its stock. A quantity below 1 removes
+ * the line. Returns the new items and whether the quantity was clamped.
+ */
+export function setCartItemQuantity(
+  items: CartItem[],
+  key: string,
+  quantity: number,
+): { items: CartItem[]; clamped: boolean } {
+  if (quantity < 1) return { items: removeCartItem(items, key), clamped: false };
+
+  let clamped = false;
+  const updated = items.map((item) => {
+    if (getCartLineKey(item) !== key) return item;
+    const next = clampQuantity(quantity, item.stock);
+    clamped = next !== quantity;
+    return { ...item, quantity: next };
+  });
+
+  return { items: updated.filter((item) => item.quantity > 0), clamped };
+}
+
+export function removeCartItem(items: CartItem[], key: string): CartItem[] {
+  return items.filter((item) => getCartLineKey(item) !== key);
+}
+
+export function getCartTotals(items: CartItem[]) {
+  return {
+    totalItems: items.reduce((total, item) => total + item.quantity, 0),
+    subtotal: items.reduce((total, item) => total + item.price * item.quantity, 0),
+  };
+}
+
+export function updateCartItem(
+  items: CartItem[],
+  key: string,
+  changes: Partial<Pick<CartItem, "price" | "stock" | "quantity">>,
+): CartItem[] {
+  return items.map((item) => (getCartLineKey(item) === key ? { ...item, ...changes } : item));
+}
+
+// Older carts stored whole product rows; keep only the fields a line needs
+const normalizeCartItem = (value: Partial<CartItem>): CartItem | null => {
+  if (!value || typeof value.id !== "string" || typeof value.price !== "number") return null;
+
+  const stock = typeof value.stock === "number" ? value.stock : 0;
+  const quantity = clampQuantity(Number(value.quantity) || 0, stock);
+  if (quantity < 1) return null;
+
+  return toCartItem(
+    {
+      id: value.id,
+      variantId: value.variantId,
+      variantLabel: value.variantLabel,
+      name: value.name ?? "",
+      price: value.price,
+      image: value.image,
+      stock,
+      category: value.category,
+    },
+    quantity,
+  );
+};
+
+export function loadCart(): CartItem[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CART_STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? saved.map(normalizeCartItem).filter(Boolean) : [];
+  } catch (error) {
+    console.error("Error loading cart:", error);
+    return [];
+  }
+}
+
+export function saveCart(items: CartItem[]) {
+  localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
+}
+
+export function clearSavedCart() {
+  localStorage.removeItem(CART_STORAGE_KEY);
+}
+
+interface ServerCartLine {
+  id: string;
+  variant_id: string | null;
+  variant_label: string | null;
+  name: string;
+  price: number;
+  image: string | null;
+  stock: number;
+  category: string | null;
+  quantity: number;
+}
+
+const fromServerCart = (data: Json): CartItem[] =>
+  ((data as unknown as ServerCartLine[]) ?? []).map((line) =>
+    toCartItem(
+      { ...line, variantId: line.variant_id, variantLabel: line.variant_label },
+      line.quantity,
+    ),
+  );
+
+/** Reads the signed-in user's cart, with current prices and stock. */
+export async function fetchServerCart(): Promise<CartItem[]> {
+  const { data, error } = await supabase.rpc("get_cart");
+  if (error) throw error;
+  return fromServerCart(data);
+}
+
+/**
+ * Merges a guest cart into the signed-in user's cart. Quantities of lines
+ * already on the server are added together, then every line is capped at
+ * stock and lines with nothing left to buy are dropped. Returns the merged cart.
+ */
+export async function mergeGuestCart(items: CartItem[]): Promise<CartItem[]> {
+  const { data, error } = await supabase.rpc("merge_cart", {
+    items: items.map(({ id, variantId, quantity }) => ({
+      id,
+      variant_id: variantId,
+      quantity,
+    })) as unknown as Json,
+  });
+  if (error) throw error;
+  return fromServerCart(data);
+}
+
+/** Sets a server cart line to `quantity` (capped at stock, 0 removes it). */
+export async function setServerCartItem(
+  item: Pick<CartItem, "id" | "variantId">,
+  quantity: number,
+): Promise<CartItem[]> {
+  const { data, error } = await supabase.rpc("set_cart_item", {
+    p_product_id: item.id,
+    p_variant_id: item.variantId,
+    p_quantity: quantity,
+  });
+  if (error) throw error;
+  return fromServerCart(data);
+}
+
+export async function clearServerCart() {
+  const { error } = await supabase.rpc("clear_cart");
+  if (error) throw error;
+}
+
+/** Current catalog price and stock for a product in the cart. */
+export interface CartProductSnapshot {
+  id: string;
+  price: number;
+  stock: number;
+  has_variants: boolean;
+  product_variants: { id: string; price: number | null; stock: number }[];
+}
+
+export type CartLineIssue =
+  | { type: "unavailable" }
+  | { type: "reduced_stock"; stock: number }
+  | { type: "price_changed"; price: number };
+
+export async function fetchCartProducts(productIds: string[]): Promise<CartProductSnapshot[]> {
+  if (productIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, price, stock, has_variants, product_variants(id, price, stock)")
+    .in("id", productIds);
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * The line's current price and stock, or null when it can no longer be
+ * bought (deleted product or variant, or a product that now needs a variant).
+ */
+export function getCurrentCartLine(
+  item: CartItem,
+  product: CartProductSnapshot | undefined,
+): { price: number; stock: number } | null {
+  if (!product) return null;
+
+  if (!item.variantId) {
+    return product.has_variants ? null : { price: product.price, stock: product.stock };
+  }
+
+  const variant = product.product_variants.find((v) => v.id === item.variantId);
+  return variant ? { price: variant.price ?? product.price, stock: variant.stock } : null;
+}
+
+/** The most pressing problem with a line, if any: unavailable, then stock, then price. */
+export function getCartLineIssue(
+  item: CartItem,
+  current: { price: number; stock: number } | null,
+): CartLineIssue | null {
+  if (!current || current.stock === 0) return { type: "unavailable" };
+  if (current.stock < item.quantity) return { type: "reduced_stock", stock: current.stock };
+  if (current.price !== item.price) return { type: "price_changed", price: current.price };
+  return null;
+}
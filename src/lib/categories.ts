@@ -0,0 +1,59 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  parent_id: string | null;
+  position: number;
+}
+
+export async function fetchCategories(): Promise<Category[]> {
+  const { data, error } = await supabase
+    .from("categories")
+    .select("id, name, slug, parent_id, position")
+    .order("position")
+    .order("name");
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+export function getChildCategories(categories: Category[], parentId: string | null): Category[] {
+  return categories.filter((category) => category.parent_id === parentId);
+}
+
+/** Returns the category and all of its descendants' ids. */
+export function getCategoryTreeIds(categories: Category[], categoryId: string): string[] {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    ids.push(...getChildCategories(categories, ids[i]).map((child) => child.id));
+  }
+  return ids;
+}
+
+/** Returns the path from the root category down to the given category. */
+export function getCategoryPath(categories: Category[], categoryId: string | null): Category[] {
+  const path: Category[] = [];
+  let current = categories.find((category) => category.id === categoryId);
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = categories.find((category) => category.id === current.parent_id);
+  }
+
+  return path;
+}
+
+/** Flattens the tree depth-first, with each category's nesting depth. */
+export function flattenCategoryTree(
+  categories: Category[],
+  parentId: string | null = null,
+  depth = 0,
+): { category: Category; depth: number }[] {
+  return getChildCategories(categories, parentId).flatMap((category) => [
+    { category, depth },
+    ...flattenCategoryTree(categories, category.id, depth + 1),
+  ]);
+}
@@ -0,0 +1,215 @@
+import type {
+  AuthorizeRequest,
+  CardDetails,
+  PaymentEvent,
+  PaymentEventType,
+  PaymentGateway,
+  PaymentResult,
+  PaymentStatus,
+} from "@/lib/payments";
+
+/** Code that passes the mock 3-D Secure challenge. */
+export const MOCK_CHALLENGE_CODE = "123456";
+
+/** Card numbers with a fixed outcome. Any other valid card number succeeds. */
+export const MOCK_TEST_CARDS = [
+  { number: "4242 4242 4242 4242", outcome: "Succeeds" },
+  { number: "4000 0000 0000 0002", outcome: "Is declined" },
+  { number: "4000 0000 0000 3220", outcome: `Asks for a 3-D Secure code (${MOCK_CHALLENGE_CODE})` },
+  { number: "4000 0000 0000 0077", outcome: "Succeeds, confirmed 10 seconds later" },
+];
+
+const DECLINED_CARD = "4000000000000002";
+const CHALLENGE_CARD = "4000000000003220";
+const DELAYED_WEBHOOK_CARD = "4000000000000077";
+
+const RESPONSE_DELAY_MS = 600;
+const WEBHOOK_DELAY_MS = 1500;
+const DELAYED_WEBHOOK_DELAY_MS = 10_000;
+const WEBHOOK_RETRY_DELAY_MS = 5000;
+const WEBHOOK_MAX_ATTEMPTS = 3;
+
+interface MockPayment {
+  orderId: string;
+  amount: number;
+  refunded: number;
+  status: PaymentStatus;
+  webhookDelay: number;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const passesLuhnCheck = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const isExpired = (expiry: string) => {
+  const match = /^(\d{2})\s*\/\s*(\d{2})$/.exec(expiry.trim());
+  if (!match) return true;
+
+  const month = Number(match[1]);
+  const year = 2000 + Number(match[2]);
+  if (month < 1 || month > 12) return true;
+
+  // Cards are valid through the last day of their expiry month
+  return new Date(year, month) <= new Date();
+};
+
+const getCardError = (card: CardDetails, number: string) => {
+  if (!/^\d{13,19}$/.test(number) || !passesLuhnCheck(number)) return "Your card number is invalid.";
+  if (isExpired(card.expiry)) return "Your card has expired.";
+  if (!/^\d{3,4}$/.test(card.cvc.trim())) return "Your card's security code is invalid.";
+  if (number === DECLINED_CARD) return "Your card was declined.";
+  return null;
+};
+
+/**
+ * An in-memory payment provider for local development. Outcomes are chosen
+ * by card number (see `MOCK_TEST_CARDS`), responses are slightly delayed and
+ * webhooks arrive after the API response, as they would from a real provider.
+ */
+export function createMockPaymentGateway(): PaymentGateway {
+  const payments = new Map<string, MockPayment>();
+  const listeners = new Set<(event: PaymentEvent) => Promise<void> | void>();
+
+  const deliver = async (event: PaymentEvent, attempt = 1) => {
+    for (const listener of listeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        console.error(`Mock webhook ${event.type} failed (attempt ${attempt}):`, error);
+        if (attempt < WEBHOOK_MAX_ATTEMPTS) {
+          setTimeout(() => deliver(event, attempt + 1), WEBHOOK_RETRY_DELAY_MS);
+        }
+        return;
+      }
+    }
+  };
+
+  const emit = (paymentId: string, type: PaymentEventType, amount: number, failureReason?: string) => {
+    const payment = payments.get(paymentId);
+    const event: PaymentEvent = {
+      id: `evt_${crypto.randomUUID()}`,
+      type,
+      provider: "mock",
+      payment_id: paymentId,
+      order_id: payment.orderId,
+      amount,
+      ...(failureReason && { failure_reason: failureReason }),
+    };
+
+    setTimeout(() => deliver(event), payment.webhookDelay);
+  };
+
+  const getPayment = (paymentId: string) => {
+    const payment = payments.get(paymentId);
+    if (!payment) throw new Error(`Unknown payment ${paymentId}`);
+    return payment;
+  };
+
+  const fail = (paymentId: string, reason: string): PaymentResult => {
+    const payment = getPayment(paymentId);
+    payment.status = "failed";
+    emit(paymentId, "payment.failed", payment.amount, reason);
+    return { paymentId, status: "failed", failureReason: reason };
+  };
+
+  const authorized = (paymentId: string): PaymentResult => {
+    const payment = getPayment(paymentId);
+    payment.status = "authorized";
+    emit(paymentId, "payment.authorized", payment.amount);
+    return { paymentId, status: "authorized" };
+  };
+
+  return {
+    provider: "mock",
+
+    async authorize({ orderId, amount, card }: AuthorizeRequest) {
+      await wait(RESPONSE_DELAY_MS);
+
+      const number = card.number.replace(/\D/g, "");
+      const paymentId = `pay_${crypto.randomUUID()}`;
+      payments.set(paymentId, {
+        orderId,
+        amount,
+        refunded: 0,
+        status: "requires_action",
+        webhookDelay: number === DELAYED_WEBHOOK_CARD ? DELAYED_WEBHOOK_DELAY_MS : WEBHOOK_DELAY_MS,
+      });
+
+      const cardError = getCardError(card, number);
+      if (cardError) return fail(paymentId, cardError);
+
+      if (number === CHALLENGE_CARD) {
+        emit(paymentId, "payment.requires_action", amount);
+        return {
+          paymentId,
+          status: "requires_action",
+          challenge: { message: `Enter the code sent to your phone. In test mode the code is ${MOCK_CHALLENGE_CODE}.` },
+        };
+      }
+
+      return authorized(paymentId);
+    },
+
+    async completeChallenge(paymentId, response) {
+      await wait(RESPONSE_DELAY_MS);
+
+      if (getPayment(paymentId).status !== "requires_action") {
+        throw new Error(`Payment ${paymentId} has no pending challenge`);
+      }
+
+      return response.trim() === MOCK_CHALLENGE_CODE
+        ? authorized(paymentId)
+        : fail(paymentId, "Authentication failed.");
+    },
+
+    async capture(paymentId) {
+      await wait(RESPONSE_DELAY_MS);
+
+      const payment = getPayment(paymentId);
+      if (payment.status !== "authorized") {
+        throw new Error(`Payment ${paymentId} is ${payment.status} and can't be captured`);
+      }
+
+      payment.status = "captured";
+      emit(paymentId, "payment.captured", payment.amount);
+      return { paymentId, status: "captured" };
+    },
+
+    async refund(paymentId, amount) {
+      await wait(RESPONSE_DELAY_MS);
+
+      const payment = getPayment(paymentId);
+      const remaining = payment.amount - payment.refunded;
+      const refundAmount = amount ?? remaining;
+      if (payment.status !== "captured" && payment.status !== "refunded") {
+        throw new Error(`Payment ${paymentId} is ${payment.status} and can't be refunded`);
+      }
+      if (refundAmount <= 0 || refundAmount > remaining) {
+        throw new Error(`Refund of ${refundAmount} exceeds the ${remaining} left on payment ${paymentId}`);
+      }
+
+      payment.refunded += refundAmount;
+      payment.status = "refunded";
+      emit(paymentId, "payment.refunded", refundAmount);
+      return { paymentId, status: "refunded" };
+    },
+
+    onWebhook(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const ORDER_STATUSES = [
+  "pending",
+  "paid",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+/**
+ * The statuses each status can move to. The database enforces the same rules
+ * in `order_status_transition_allowed`; keep the two in step.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["processing", "refunded"],
+  processing: ["shipped", "refunded"],
+  shipped: ["delivered", "refunded"],
+  delivered: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Awaiting payment",
+  paid: "Paid",
+  processing: "Processing",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus) {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/** Cancelled and refunded orders can't change again. */
+export function isFinalOrderStatus(status: OrderStatus) {
+  return ORDER_STATUS_TRANSITIONS[status].length === 0;
+}
+
+export function getOrderStatusLabel(status: string) {
+  return isOrderStatus(status) ? ORDER_STATUS_LABELS[status] : status;
+}
+
+export interface OrderStatusChange {
+  id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  /** Who made the change: 'customer', 'support', 'system' or 'payment:<provider>'. */
+  actor: string;
+  note: string | null;
+  created_at: string;
+}
+
+/** Every status one of the signed-in user's orders has had, oldest first. */
+export async function fetchOrderStatusHistory(orderId: string): Promise<OrderStatusChange[]> {
+  const { data, error } = await supabase
+    .from("order_status_history")
+    .select("id, from_status, to_status, actor, note, created_at")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  return data as OrderStatusChange[];
+}
+
+export interface UpdateOrderStatusOptions {
+  note?: string;
+  /** Shows a guest order is the caller's; see `getOrderPath`. */
+  accessToken?: string | null;
+}
+
+/**
+ * Moves an order to another status through `update_order_status`, which
+ * rejects transitions the lifecycle doesn't allow. Customers can only cancel
+ * their own unpaid orders.
+ */
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  { note, accessToken }: UpdateOrderStatusOptions = {},
+) {
+  const { error } = await supabase.rpc("update_order_status", {
+    p_order_id: orderId,
+    p_status: status,
+    p_note: note ?? null,
+    p_access_token: accessToken ?? null,
+  });
+
+  if (error) throw error;
+}
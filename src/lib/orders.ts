@@ -0,0 +1,206 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { OrderStatus } from "@/lib/order-status";
+import type { PriceBreakdown } from "@/lib/pricing";
+
+export interface OrderLine {
+  id: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface ShippingAddress {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  address: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  /** Code of a row in `shipping_countries`. Orders placed before countries existed have none. */
+  country: string;
+}
+
+export interface StockShortfall {
+  product_id: string;
+  variant_id: string | null;
+  name: string | null;
+  requested: number;
+  available: number;
+}
+
+export interface PlaceOrderResult {
+  order_id: string | null;
+  shortfalls: StockShortfall[];
+  /** What the order was charged, as priced by the server. Absent on shortfalls. */
+  pricing?: PriceBreakdown;
+  /** Why the promotion code was rejected; no order is created when set. */
+  promotion_error?: string;
+  /** Messages by field from `validate_shipping_address`; no order is created when set. */
+  address_errors?: Partial<Record<keyof ShippingAddress, string>>;
+  /** Opens a guest order; only guest orders get one. */
+  access_token?: string | null;
+  status?: OrderStatus;
+  /** True when an earlier attempt with the same idempotency key placed the order. */
+  replayed?: boolean;
+}
+
+export interface PlaceOrderOptions {
+  /** Identifies the checkout attempt; see `getCheckoutAttemptKey`. */
+  idempotencyKey?: string;
+  signal?: AbortSignal;
+}
+
+const CHECKOUT_ATTEMPT_STORAGE_KEY = "checkout-attempt";
+
+/** Hex SHA-256 of the details, so the stored attempt holds no address. */
+async function getFingerprint(details: unknown) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(details)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The idempotency key for placing an order with these details. The key is kept
+ * in localStorage and reused for as long as the details stay the same, so a
+ * retry or the same checkout in another tab sends the same key and gets the
+ * order back instead of placing a second one.
+ */
+export async function getCheckoutAttemptKey(details: unknown): Promise<string> {
+  const fingerprint = await getFingerprint(details);
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(CHECKOUT_ATTEMPT_STORAGE_KEY) ?? "null");
+    if (stored?.fingerprint === fingerprint && typeof stored.key === "string") return stored.key;
+  } catch {
+    // A corrupt entry just starts a new attempt
+  }
+
+  const key = crypto.randomUUID();
+  localStorage.setItem(CHECKOUT_ATTEMPT_STORAGE_KEY, JSON.stringify({ key, fingerprint }));
+  return key;
+}
+
+export function clearCheckoutAttempt() {
+  localStorage.removeItem(CHECKOUT_ATTEMPT_STORAGE_KEY);
+}
+
+/**
+ * Places an order through the `place_order` database function, which checks
+ * and decrements stock and creates the order with its `order_items` in one
+ * transaction. Prices and names are snapshotted from the catalog server-side
+ * and totals are computed there from the pricing rules for the address's state
+ * and the promotion code, which is checked again and counted as used, so only
+ * product and variant ids and quantities are sent. When any line cannot be
+ * fulfilled no order is created and `shortfalls` lists them.
+ *
+ * Without a session the order is placed as a guest order for the shipping
+ * email, and `access_token` is returned for the guest's order link.
+ *
+ * With an idempotency key, a repeated call returns the order the first call
+ * placed, with `replayed` set, so it is safe to retry after a timeout.
+ */
+export async function placeOrder(
+  items: OrderLine[],
+  shippingAddress: ShippingAddress,
+  promotionCode: string | null = null,
+  { idempotencyKey, signal }: PlaceOrderOptions = {},
+): Promise<PlaceOrderResult> {
+  let query = supabase.rpc("place_order", {
+    items: items.map(({ id, variantId, quantity }) => ({
+      id,
+      variant_id: variantId ?? null,
+      quantity,
+    })) as unknown as Json,
+    shipping_address: shippingAddress as unknown as Json,
+    promotion_code: promotionCode,
+    idempotency_key: idempotencyKey ?? null,
+  });
+  if (signal) query = query.abortSignal(signal);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return data as unknown as PlaceOrderResult;
+}
+
+export interface OrderItem {
+  id: string;
+  product_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface Order {
+  id: string;
+  created_at: string;
+  status: OrderStatus;
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  promotion_code: string | null;
+  shipping_address: ShippingAddress | null;
+  /** Set on guest orders that no account has claimed yet. */
+  guest_email?: string | null;
+  order_items: OrderItem[];
+}
+
+export const ORDER_SELECT =
+  "id, created_at, status, subtotal, discount, shipping, tax, total, promotion_code, shipping_address, order_items(id, product_id, product_name, variant_name, quantity, unit_price)";
+
+/** Fetches one of the signed-in user's orders; RLS hides everyone else's. */
+export async function fetchOrder(orderId: string): Promise<Order | null> {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(ORDER_SELECT)
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data as unknown as Order | null;
+}
+
+export interface OrderSummary {
+  id: string;
+  created_at: string;
+  status: OrderStatus;
+  total: number;
+  order_items: { quantity: number }[];
+}
+
+/** One page of the signed-in user's orders, newest first, with the total count. */
+export async function fetchOrders(page: number, pageSize: number): Promise<{ orders: OrderSummary[]; count: number }> {
+  const from = (page - 1) * pageSize;
+  const { data, count, error } = await supabase
+    .from("orders")
+    .select("id, created_at, status, total, order_items(quantity)", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) throw error;
+
+  return { orders: data as OrderSummary[], count: count ?? 0 };
+}
+
+/** Fetches a guest order with the access token from its order link. */
+export async function fetchGuestOrder(orderId: string, accessToken: string): Promise<Order | null> {
+  const { data, error } = await supabase.rpc("get_guest_order", {
+    p_order_id: orderId,
+    p_access_token: accessToken,
+  });
+
+  if (error) throw error;
+
+  return data as unknown as Order | null;
+}
+
+/** The order page; guest orders need their access token to open it. */
+export function getOrderPath(orderId: string, accessToken?: string | null) {
+  return accessToken ? `/order/${orderId}?token=${encodeURIComponent(accessToken)}` : `/order/${orderId}`;
+}
@@ -0,0 +1,111 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { createMockPaymentGateway } from "@/lib/mock-payment-gateway";
+
+export interface CardDetails {
+  number: string;
+  /** MM/YY */
+  expiry: string;
+  cvc: string;
+}
+
+export interface AuthorizeRequest {
+  orderId: string;
+  amount: number;
+  currency: string;
+  card: CardDetails;
+}
+
+export type PaymentStatus = "requires_action" | "authorized" | "captured" | "failed" | "refunded";
+
+/** A step the customer must complete before the payment is authorized, like 3-D Secure. */
+export interface PaymentChallenge {
+  message: string;
+}
+
+export interface PaymentResult {
+  paymentId: string;
+  status: PaymentStatus;
+  failureReason?: string;
+  challenge?: PaymentChallenge;
+}
+
+export type PaymentEventType =
+  | "payment.requires_action"
+  | "payment.authorized"
+  | "payment.failed"
+  | "payment.captured"
+  | "payment.refunded";
+
+/** A webhook event, in the shape `record_payment_event` expects. */
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  provider: string;
+  payment_id: string;
+  order_id: string;
+  amount: number;
+  failure_reason?: string;
+}
+
+/**
+ * What the storefront needs from a payment provider. Results returned to the
+ * browser only drive the checkout UI; an order is marked paid when the
+ * provider's `payment.captured` webhook is recorded.
+ */
+export interface PaymentGateway {
+  readonly provider: string;
+  authorize(request: AuthorizeRequest): Promise<PaymentResult>;
+  /** Answers a challenge returned with a `requires_action` result. */
+  completeChallenge(paymentId: string, response: string): Promise<PaymentResult>;
+  capture(paymentId: string): Promise<PaymentResult>;
+  /** Refunds `amount`, or whatever is left of the payment when omitted. */
+  refund(paymentId: string, amount?: number): Promise<PaymentResult>;
+  /**
+   * Subscribes to webhook events. A listener that throws or rejects gets the
+   * event again later, like a provider retrying a failed delivery.
+   */
+  onWebhook(listener: (event: PaymentEvent) => Promise<void> | void): () => void;
+}
+
+/** Records an event; guests pass their order's access token to show it is theirs. */
+export async function recordPaymentEvent(event: PaymentEvent, accessToken?: string | null) {
+  const { data, error } = await supabase.rpc("record_payment_event", {
+    event: event as unknown as Json,
+    access_token: accessToken ?? null,
+  });
+
+  if (error) throw error;
+
+  return data as unknown as { duplicate: boolean; order_status: string };
+}
+
+/**
+ * Whether the database accepts events from the mock gateway. It is only
+ * enabled for local development; elsewhere the mock gateway can't pay for orders.
+ */
+export async function isMockGatewayEnabled(): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("payment_settings")
+    .select("mock_gateway_enabled")
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.mock_gateway_enabled ?? false;
+}
+
+export const paymentGateway: PaymentGateway = createMockPaymentGateway();
+
+const guestOrderTokens = new Map<string, string>();
+
+/** Lets this browser record mock webhook events for a guest order it placed. */
+export function registerGuestOrder(orderId: string, accessToken: string) {
+  guestOrderTokens.set(orderId, accessToken);
+}
+
+// A real provider posts webhooks to a server-side handler. The mock gateway
+// runs in the browser, so its events are recorded from here instead.
+paymentGateway.onWebhook(async (event) => {
+  await recordPaymentEvent(event, guestOrderTokens.get(event.order_id));
+});
@@ -0,0 +1,127 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/** Region code of a country's tax rate for regions without one of their own. */
+export const DEFAULT_TAX_REGION = "*";
+
+/** Country code of the tax rate for countries without any rates of their own. */
+export const DEFAULT_TAX_COUNTRY = "*";
+
+export interface TaxRate {
+  country: string;
+  region: string;
+  rate: number;
+}
+
+/** An amount rate sets `min_subtotal`, a weight rate sets `min_weight` in kilograms. */
+export interface ShippingRate {
+  min_subtotal: number | null;
+  min_weight: number | null;
+  amount: number;
+}
+
+export interface PricingRules {
+  taxRates: TaxRate[];
+  shippingRates: ShippingRate[];
+}
+
+export interface PriceBreakdown {
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+}
+
+export interface PricingOptions {
+  /** Shipping country code. Without one the default tax rate applies. */
+  country?: string | null;
+  /** Shipping state or province code. Without one the country's default tax rate applies. */
+  region?: string | null;
+  discount?: number;
+  freeShipping?: boolean;
+}
+
+export async function fetchPricingRules(): Promise<PricingRules> {
+  const [taxRates, shippingRates] = await Promise.all([
+    supabase.from("tax_rates").select("country, region, rate"),
+    supabase.from("shipping_rates").select("min_subtotal, min_weight, amount"),
+  ]);
+
+  if (taxRates.error) throw taxRates.error;
+  if (shippingRates.error) throw shippingRates.error;
+
+  return { taxRates: taxRates.data, shippingRates: shippingRates.data };
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/** The region's own rate, then its country's default, then the store default. */
+export function getTaxRate(rules: PricingRules, country?: string | null, region?: string | null): number {
+  const countryCode = country?.trim().toUpperCase();
+  const regionCode = region?.trim().toUpperCase();
+  const findRate = (countryMatch: string | undefined, regionMatch: string | undefined) =>
+    countryMatch && regionMatch
+      ? rules.taxRates.find((taxRate) => taxRate.country === countryMatch && taxRate.region === regionMatch)
+      : undefined;
+
+  const rate =
+    findRate(countryCode, regionCode) ??
+    findRate(countryCode, DEFAULT_TAX_REGION) ??
+    findRate(DEFAULT_TAX_COUNTRY, DEFAULT_TAX_REGION);
+
+  return rate?.rate ?? 0;
+}
+
+const getHighestRate = (rates: ShippingRate[], threshold: (rate: ShippingRate) => number | null, value: number) =>
+  rates
+    .filter((rate) => threshold(rate) !== null && threshold(rate) <= value)
+    .sort((a, b) => threshold(b) - threshold(a))[0]?.amount ?? 0;
+
+/**
+ * The amount rate with the highest threshold the amount reaches plus the
+ * weight rate with the highest threshold the weight reaches; free when none does.
+ */
+export function getShippingCost(rules: PricingRules, amount: number, weight = 0): number {
+  return roundCents(
+    getHighestRate(rules.shippingRates, (rate) => rate.min_subtotal, amount) +
+      getHighestRate(rules.shippingRates, (rate) => rate.min_weight, weight),
+  );
+}
+
+/** Shipping weight of one unit of each product, in kilograms, by product id. */
+export async function fetchProductWeights(productIds: string[]): Promise<Record<string, number>> {
+  if (productIds.length === 0) return {};
+
+  const { data, error } = await supabase.from("products").select("id, weight").in("id", productIds);
+
+  if (error) throw error;
+
+  return Object.fromEntries(data.map((product) => [product.id, product.weight]));
+}
+
+/**
+ * Prices a cart with the given rules. This mirrors `calculate_order_pricing`
+ * in the database, which prices the order when it is placed, so keep the two
+ * in step: the discount never exceeds the subtotal, tax applies to the
+ * discounted subtotal but not to shipping, and every amount is rounded to cents.
+ */
+export function calculatePricing(
+  lines: { price: number; quantity: number; weight?: number }[],
+  rules: PricingRules,
+  { country, region, discount = 0, freeShipping = false }: PricingOptions = {},
+): PriceBreakdown {
+  const subtotal = roundCents(lines.reduce((total, line) => total + line.price * line.quantity, 0));
+  const appliedDiscount = Math.min(discount, subtotal);
+  const discounted = subtotal - appliedDiscount;
+  const weight = lines.reduce((total, line) => total + (line.weight ?? 0) * line.quantity, 0);
+  const shipping = freeShipping ? 0 : getShippingCost(rules, discounted, weight);
+  const tax = roundCents(discounted * getTaxRate(rules, country, region));
+
+  return {
+    subtotal,
+    discount: appliedDiscount,
+    shipping,
+    tax,
+    total: roundCents(discounted + shipping + tax),
+  };
+}
@@ -0,0 +1,136 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const PRODUCT_IMAGES_BUCKET = "product-images";
+
+/** Bundled fallback shown when a product has no image. */
+export const PLACEHOLDER_IMAGE = "/placeholder.svg";
+
+/** Square variant widths, in pixels, for each place a product image is shown. */
+export const PRODUCT_IMAGE_SIZES = {
+  dashboard: 40,
+  cart: 80,
+  card: 300,
+  detail: 600,
+} as const;
+
+export type ProductImageSize = keyof typeof PRODUCT_IMAGE_SIZES;
+
+// Uploaded originals are stored as `<vendor>/<image id>/original.<ext>` with
+// the variants beside them as `<width>.webp`. Browsers that can't encode WebP,
+// such as Safari, produce PNG variants instead, and the original is then named
+// `original-png.<ext>` so the variant extension can be told from its URL.
+const ORIGINAL_PATTERN = new RegExp(`/${PRODUCT_IMAGES_BUCKET}/(.+)/original(?:-([a-z]+))?\\.([a-z0-9]+)$`, "i");
+
+const DEFAULT_VARIANT_EXTENSION = "webp";
+
+const VARIANT_EXTENSIONS: Record<string, string> = {
+  "image/webp": "webp",
+  "image/png": "png",
+};
+
+/**
+ * Returns the URL of the resized variant of a product image, falling back to
+ * the image itself for external URLs and to the placeholder when empty.
+ */
+export function getProductImageUrl(image: string | null | undefined, size: ProductImageSize): string {
+  if (!image) return PLACEHOLDER_IMAGE;
+
+  const match = image.match(ORIGINAL_PATTERN);
+  if (!match) return image;
+
+  const [, folder, variantExtension = DEFAULT_VARIANT_EXTENSION] = match;
+  return image.replace(ORIGINAL_PATTERN, `/${PRODUCT_IMAGES_BUCKET}/${folder}/${PRODUCT_IMAGE_SIZES[size]}.${variantExtension}`);
+}
+
+const resizeToSquare = async (file: File, width: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = width;
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+
+  // Center-crop to a square, matching how every view renders with object-cover
+  context.drawImage(
+    bitmap,
+    (bitmap.width - side) / 2,
+    (bitmap.height - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    width,
+    width,
+  );
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      "image/webp",
+      0.85,
+    );
+  });
+};
+
+/**
+ * Uploads a product image and its resized variants to Storage under the
+ * vendor's folder and returns the public URL of the original.
+ */
+export async function uploadProductImage(file: File, vendorId: string): Promise<string> {
+  const extension = file.name.split(".").pop()?.toLowerCase() || "jpg";
+  const folder = `${vendorId}/${crypto.randomUUID()}`;
+  const storage = supabase.storage.from(PRODUCT_IMAGES_BUCKET);
+
+  const blobs = await Promise.all(
+    Object.values(PRODUCT_IMAGE_SIZES).map((width) => resizeToSquare(file, width)),
+  );
+
+  // toBlob falls back to PNG where WebP encoding isn't supported
+  const variantExtension = VARIANT_EXTENSIONS[blobs[0].type] ?? "png";
+  const originalPath =
+    variantExtension === DEFAULT_VARIANT_EXTENSION
+      ? `${folder}/original.${extension}`
+      : `${folder}/original-${variantExtension}.${extension}`;
+  const variants = Object.values(PRODUCT_IMAGE_SIZES).map((width, i) => ({
+    path: `${folder}/${width}.${variantExtension}`,
+    blob: blobs[i],
+  }));
+
+  const uploads = [
+    { path: originalPath, blob: file as Blob },
+    ...variants,
+  ].map(async ({ path, blob }) => {
+    const { error } = await storage.upload(path, blob, {
+      cacheControl: "31536000",
+      contentType: blob.type,
+    });
+    if (error) throw error;
+  });
+
+  await Promise.all(uploads);
+
+  return storage.getPublicUrl(originalPath).data.publicUrl;
+}
+
+/**
+ * Removes an uploaded image and its variants from Storage. Images hosted
+ * elsewhere are left untouched.
+ */
+export async function removeProductImage(image: string): Promise<void> {
+  const match = image.match(ORIGINAL_PATTERN);
+  if (!match) return;
+
+  const [, folder, variantExtension = DEFAULT_VARIANT_EXTENSION, extension] = match;
+  const originalName =
+    variantExtension === DEFAULT_VARIANT_EXTENSION ? "original" : `original-${variantExtension}`;
+  const paths = [
+    `${folder}/${originalName}.${extension}`,
+    ...Object.values(PRODUCT_IMAGE_SIZES).map((width) => `${folder}/${width}.${variantExtension}`),
+  ];
+
+  const { error } = await supabase.storage.from(PRODUCT_IMAGES_BUCKET).remove(paths);
+  if (error) throw error;
+}
@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { CartItem } from "@/lib/cart";
+
+export const PROMOTION_CODE_STORAGE_KEY = "promotion-code";
+
+export interface AppliedPromotion {
+  code: string;
+  description: string | null;
+  discount: number;
+  free_shipping: boolean;
+}
+
+export type PromotionCheck =
+  | { promotion: AppliedPromotion; error: null }
+  | { promotion: null; error: string };
+
+export const normalizePromotionCode = (code: string) => code.trim().toUpperCase();
+
+/**
+ * Checks a code against the cart at current catalog prices. The same check
+ * runs again when the order is placed, so a code that expires or runs out in
+ * the meantime is rejected then.
+ */
+export async function checkPromotion(
+  code: string,
+  items: Pick<CartItem, "id" | "variantId" | "quantity">[],
+): Promise<PromotionCheck> {
+  const { data, error } = await supabase.rpc("check_promotion", {
+    p_code: normalizePromotionCode(code),
+    items: items.map(({ id, variantId, quantity }) => ({
+      id,
+      variant_id: variantId,
+      quantity,
+    })) as unknown as Json,
+  });
+
+  if (error) throw error;
+
+  const result = data as unknown as AppliedPromotion & { error: string | null };
+  return result.error
+    ? { promotion: null, error: result.error }
+    : { promotion: result, error: null };
+}
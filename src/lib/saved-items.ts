@@ -0,0 +1,93 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getCartLineKey, type CartItem } from "@/lib/cart";
+
+export const SAVED_ITEMS_STORAGE_KEY = "saved-for-later";
+
+/** A cart line moved out of the cart. `price` is the price when it was saved. */
+export type SavedItem = CartItem;
+
+export function loadSavedItems(): SavedItem[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SAVED_ITEMS_STORAGE_KEY) || "[]");
+    return Array.isArray(saved)
+      ? saved.filter((item) => item && typeof item.id === "string" && typeof item.price === "number")
+      : [];
+  } catch (error) {
+    console.error("Error loading saved items:", error);
+    return [];
+  }
+}
+
+export function saveSavedItems(items: SavedItem[]) {
+  localStorage.setItem(SAVED_ITEMS_STORAGE_KEY, JSON.stringify(items));
+}
+
+export function clearSavedItems() {
+  localStorage.removeItem(SAVED_ITEMS_STORAGE_KEY);
+}
+
+/** Adds an item to a local list, replacing any saved line for the same product or variant. */
+export function addSavedItem(items: SavedItem[], item: SavedItem): SavedItem[] {
+  const key = getCartLineKey(item);
+  return [item, ...items.filter((saved) => getCartLineKey(saved) !== key)];
+}
+
+export function removeSavedItem(items: SavedItem[], key: string): SavedItem[] {
+  return items.filter((item) => getCartLineKey(item) !== key);
+}
+
+export async function fetchServerSavedItems(): Promise<SavedItem[]> {
+  const { data, error } = await supabase
+    .from("saved_items")
+    .select("product_id, variant_id, variant_label, quantity, price, products(name, image, category, stock), product_variants(stock)")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? [])
+    .filter((row) => row.products)
+    .map((row) => ({
+      id: row.product_id,
+      variantId: row.variant_id,
+      variantLabel: row.variant_label,
+      name: row.products.name,
+      price: row.price,
+      image: row.products.image,
+      stock: row.product_variants?.stock ?? row.products.stock,
+      category: row.products.category,
+      quantity: row.quantity,
+    }));
+}
+
+const toServerRow = (item: SavedItem) => ({
+  product_id: item.id,
+  variant_id: item.variantId,
+  variant_label: item.variantLabel,
+  quantity: item.quantity,
+  price: item.price,
+});
+
+/**
+ * Saves items to the signed-in user's list. An item already saved is
+ * replaced, unless `keepExisting` is set, as when merging a guest list.
+ */
+export async function saveServerSavedItems(items: SavedItem[], keepExisting = false) {
+  if (items.length === 0) return;
+
+  const { error } = await supabase
+    .from("saved_items")
+    .upsert(items.map(toServerRow), {
+      onConflict: "user_id,product_id,variant_id",
+      ignoreDuplicates: keepExisting,
+    });
+
+  if (error) throw error;
+}
+
+export async function removeServerSavedItem(item: Pick<SavedItem, "id" | "variantId">) {
+  let query = supabase.from("saved_items").delete().eq("product_id", item.id);
+  query = item.variantId ? query.eq("variant_id", item.variantId) : query.is("variant_id", null);
+
+  const { error } = await query;
+  if (error) throw error;
+}
@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { ShippingAddress } from "@/lib/orders";
+
+export const DEFAULT_COUNTRY = "US";
+
+export interface ShippingRegion {
+  code: string;
+  name: string;
+}
+
+export interface ShippingCountry {
+  code: string;
+  name: string;
+  /** What the country calls its regions, like "State" or "Province". */
+  region_label: string;
+  postal_code_label: string;
+  postal_code_pattern: string;
+  phone_pattern: string;
+  regions: ShippingRegion[];
+}
+
+export const EMPTY_SHIPPING_ADDRESS: ShippingAddress = {
+  first_name: "",
+  last_name: "",
+  email: "",
+  phone: "",
+  address: "",
+  city: "",
+  state: "",
+  zip_code: "",
+  country: DEFAULT_COUNTRY,
+};
+
+export async function fetchShippingCountries(): Promise<ShippingCountry[]> {
+  const { data, error } = await supabase
+    .from("shipping_countries")
+    .select("code, name, region_label, postal_code_label, postal_code_pattern, phone_pattern, shipping_regions(code, name)")
+    .order("position");
+
+  if (error) throw error;
+
+  return data.map(({ shipping_regions, ...country }) => ({
+    ...country,
+    regions: [...shipping_regions].sort((a, b) => a.name.localeCompare(b.name)),
+  }));
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Strips the separators people type in phone numbers before matching. */
+export const normalizePhone = (phone: string) => phone.replace(/[\s().-]/g, "");
+
+const requiredText = (max: number) =>
+  z.string().trim().min(1, "This field is required").max(max, `Must be ${max} characters or fewer`);
+
+const shippingAddressObject = z.object({
+  first_name: requiredText(100),
+  last_name: requiredText(100),
+  email: z.string().trim().regex(EMAIL_PATTERN, "Enter a valid email address"),
+  phone: z.string().trim(),
+  address: requiredText(200),
+  city: requiredText(100),
+  state: z.string(),
+  zip_code: z.string().trim().toUpperCase(),
+  country: z.string(),
+});
+
+const checkCountryFormats =
+  (countries: ShippingCountry[]) =>
+  (address: z.infer<typeof shippingAddressObject>, ctx: z.RefinementCtx) => {
+    const issue = (path: keyof ShippingAddress, message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+    const country = countries.find((c) => c.code === address.country);
+    if (!country) {
+      issue("country", "Select a country we ship to");
+      return;
+    }
+
+    if (!country.regions.some((region) => region.code === address.state)) {
+      issue("state", `Select a ${country.region_label.toLowerCase()}`);
+    }
+    if (!new RegExp(country.postal_code_pattern).test(address.zip_code)) {
+      issue("zip_code", `Enter a valid ${country.postal_code_label}`);
+    }
+    if (!new RegExp(country.phone_pattern).test(normalizePhone(address.phone))) {
+      issue("phone", `Enter a valid ${country.name} phone number`);
+    }
+  };
+
+/**
+ * Validates a shipping address against the formats of its country. This is
+ * the client half of `validate_shipping_address` in the database, which
+ * checks orders and saved addresses with the same rules and messages, so keep
+ * the two in step.
+ */
+export function createShippingAddressSchema(countries: ShippingCountry[]) {
+  return shippingAddressObject.superRefine(checkCountryFormats(countries));
+}
+
+/** A shipping address with the address book's optional label. */
+export function createSavedAddressSchema(countries: ShippingCountry[]) {
+  return shippingAddressObject
+    .extend({ label: z.string().trim().max(50, "Must be 50 characters or fewer") })
+    .superRefine(checkCountryFormats(countries));
+}
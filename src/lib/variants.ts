@@ -0,0 +1,94 @@
+export interface ProductOptionValue {
+  id: string;
+  value: string;
+  position: number;
+}
+
+export interface ProductOption {
+  id: string;
+  name: string;
+  position: number;
+  product_option_values: ProductOptionValue[];
+}
+
+export interface ProductVariant {
+  id: string;
+  sku: string;
+  price: number | null;
+  stock: number;
+  product_variant_values: { option_value_id: string }[];
+}
+
+/** Selected option value id, keyed by option id. */
+export type VariantSelection = Record<string, string>;
+
+/** Columns to embed when selecting a product together with its variants. */
+export const VARIANT_SELECT =
+  "product_options(id, name, position, product_option_values(id, value, position)), product_variants(id, sku, price, stock, product_variant_values(option_value_id))";
+
+const byPosition = (a: { position: number }, b: { position: number }) => a.position - b.position;
+
+/** Sorts options and their values into display order. */
+export function sortOptions(options: ProductOption[]): ProductOption[] {
+  return [...options]
+    .sort(byPosition)
+    .map((option) => ({
+      ...option,
+      product_option_values: [...option.product_option_values].sort(byPosition),
+    }));
+}
+
+const variantValueIds = (variant: ProductVariant) =>
+  new Set(variant.product_variant_values.map((value) => value.option_value_id));
+
+const matchesSelection = (variant: ProductVariant, selection: VariantSelection) => {
+  const valueIds = variantValueIds(variant);
+  return Object.values(selection).every((valueId) => valueIds.has(valueId));
+};
+
+/** Returns the variant matching a complete selection of every option. */
+export function findVariant(
+  options: ProductOption[],
+  variants: ProductVariant[],
+  selection: VariantSelection,
+): ProductVariant | undefined {
+  if (options.some((option) => !selection[option.id])) return undefined;
+  return variants.find((variant) => matchesSelection(variant, selection));
+}
+
+/**
+ * Returns the variants that would match if `valueId` were picked for
+ * `optionId`, keeping the other selected options as they are.
+ */
+export function variantsForValue(
+  variants: ProductVariant[],
+  selection: VariantSelection,
+  optionId: string,
+  valueId: string,
+): ProductVariant[] {
+  const candidate = { ...selection, [optionId]: valueId };
+  return variants.filter((variant) => matchesSelection(variant, candidate));
+}
+
+/** Builds the selection for a variant, one value per option. */
+export function selectionForVariant(options: ProductOption[], variant: ProductVariant): VariantSelection {
+  const valueIds = variantValueIds(variant);
+  const selection: VariantSelection = {};
+
+  for (const option of options) {
+    const value = option.product_option_values.find((v) => valueIds.has(v.id));
+    if (value) selection[option.id] = value.id;
+  }
+
+  return selection;
+}
+
+/** Human readable label such as "M / Red", in option order. */
+export function getVariantLabel(options: ProductOption[], variant: ProductVariant): string {
+  const valueIds = variantValueIds(variant);
+
+  return sortOptions(options)
+    .map((option) => option.product_option_values.find((value) => valueIds.has(value.id))?.value)
+    .filter(Boolean)
+    .join(" / ");
+}
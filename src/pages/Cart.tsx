@@ -1,82 +1,55 @@
-import { useState, useEffect } from "react";
+import { useEffect } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { Trash2, Plus, Minus, ShoppingBag } from "lucide-react";
+import { useCart } from "@/hooks/use-cart";
+import { useCartValidation } from "@/hooks/use-cart-validation";
+import { usePricing } from "@/hooks/use-pricing";
+import { usePromotion } from "@/hooks/use-promotion";
+import { useSavedItems } from "@/hooks/use-saved-items";
+import { Trash2, Plus, Minus, ShoppingBag, AlertTriangle } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
-
-interface CartItem {
-  id: string;
-  name: string;
-  price: number;
-  image: string;
-  stock: number;
-  category: string;
-  description: string;
-  quantity: number;
-}
+import PriceSummary from "@/components/PriceSummary";
+import PromotionCodeInput from "@/components/PromotionCodeInput";
+import SavedItemsList from "@/components/SavedItemsList";
+import { getCartLineKey, type CartItem } from "@/lib/cart";
+import { getProductImageUrl } from "@/lib/product-images";
 
 export default function Cart() {
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const { items: cartItems, isLoading, totalItems, setQuantity, removeItem, updateItem, clear } = useCart();
+  const { lines, hasIssues, isValidating } = useCartValidation(cartItems);
+  const { promotion, error: promotionError, isChecking } = usePromotion();
+  const { pricing } = usePricing(cartItems, {
+    discount: promotion?.discount,
+    freeShipping: promotion?.free_shipping,
+  });
+  const { savedItems, saveForLater, moveToCart, removeFromSaved } = useSavedItems();
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  // Restocks need no action, so pick them up silently
   useEffect(() => {
-    loadCartFromStorage();
-  }, []);
-
-  const loadCartFromStorage = () => {
-    try {
-      const savedCart = localStorage.getItem('cart');
-      if (savedCart) {
-        setCartItems(JSON.parse(savedCart));
+    for (const item of cartItems) {
+      const { current, issue } = lines[getCartLineKey(item)] ?? {};
+      if (current && !issue && current.stock !== item.stock) {
+        updateItem(getCartLineKey(item), { stock: current.stock });
       }
-    } catch (error) {
-      console.error('Error loading cart:', error);
-      toast({
-        title: "Error loading cart",
-        description: "There was an issue loading your cart.",
-        variant: "destructive",
-      });
     }
-  };
+  }, [lines]);
 
-  const saveCartToStorage = (items: CartItem[]) => {
-    localStorage.setItem('cart', JSON.stringify(items));
-    setCartItems(items);
+  const acceptNewPrice = (item: CartItem, price: number) => {
+    updateItem(getCartLineKey(item), { price });
   };
 
-  const updateQuantity = (itemId: string, newQuantity: number) => {
-    if (newQuantity < 1) {
-      removeFromCart(itemId);
-      return;
-    }
-
-    const updatedItems = cartItems.map(item => {
-      if (item.id === itemId) {
-        // Check if new quantity exceeds stock
-        if (newQuantity > item.stock) {
-          toast({
-            title: "Stock limit reached",
-            description: `Only ${item.stock} items available in stock.`,
-            variant: "destructive",
-          });
-          return { ...item, quantity: item.stock };
-        }
-        return { ...item, quantity: newQuantity };
-      }
-      return item;
-    });
-
-    saveCartToStorage(updatedItems);
+  const reduceToAvailable = (item: CartItem, stock: number) => {
+    updateItem(getCartLineKey(item), { stock, quantity: stock });
   };
 
-  const removeFromCart = (itemId: string) => {
-    const updatedItems = cartItems.filter(item => item.id !== itemId);
-    saveCartToStorage(updatedItems);
-    
+  const removeFromCart = (lineKey: string) => {
+    removeItem(lineKey);
+
     toast({
       title: "Item removed",
       description: "Item has been removed from your cart.",
@@ -84,25 +57,71 @@ export default function Cart() {
   };
 
   const clearCart = () => {
-    saveCartToStorage([]);
+    clear();
     toast({
       title: "Cart cleared",
       description: "All items have been removed from your cart.",
     });
   };
 
-  const getTotalPrice = () => {
-    return cartItems.reduce((total, item) => total + (item.price * item.quantity), 0);
+  const handleProceedToCheckout = () => {
+    if (hasIssues) {
+      toast({
+        title: "Cart needs attention",
+        description: "Some items changed since you added them. Review them before checking out.",
+        variant: "destructive",
+      });
+      return;
+    }
+    navigate('/checkout');
   };
 
-  const getTotalItems = () => {
-    return cartItems.reduce((total, item) => total + item.quantity, 0);
-  };
+  const renderLineIssue = (item: CartItem) => {
+    const issue = lines[getCartLineKey(item)]?.issue;
+    if (!issue) return null;
 
-  const handleProceedToCheckout = () => {
-    navigate('/checkout');
+    let message: string;
+    let fix: { label: string; onClick: () => void };
+
+    if (issue.type === "unavailable") {
+      message = "This item is no longer available.";
+      fix = { label: "Remove", onClick: () => removeFromCart(getCartLineKey(item)) };
+    } else if (issue.type === "reduced_stock") {
+      message = `Only ${issue.stock} left in stock.`;
+      fix = { label: `Reduce to ${issue.stock}`, onClick: () => reduceToAvailable(item, issue.stock) };
+    } else {
+      message = `Price changed from $${item.price.toFixed(2)} to $${issue.price.toFixed(2)}.`;
+      fix = { label: "Accept new price", onClick: () => acceptNewPrice(item, issue.price) };
+    }
+
+    return (
+      <div className="flex items-center justify-between gap-2 rounded-md bg-destructive/10 px-3 py-2">
+        <p className="flex items-center gap-2 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {message}
+        </p>
+        <Button variant="outline" size="sm" onClick={fix.onClick}>
+          {fix.label}
+        </Button>
+      </div>
+    );
   };
 
+  if (isLoading) {
+    return (
+      <div className="min-h-screen">
+        <Header />
+        <main className="container mx-auto px-4 py-8">
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            <p className="mt-4 text-muted-foreground">Loading your cart...</p>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen">
       <Header />
@@ -111,7 +130,7 @@ export default function Cart() {
         <div className="space-y-4 mb-8">
           <h1 className="text-3xl md:text-4xl font-bold">Shopping Cart</h1>
           <p className="text-muted-foreground text-lg">
-            {cartItems.length === 0 ? "Your cart is empty" : `${getTotalItems()} items in your cart`}
+            {cartItems.length === 0 ? "Your cart is empty" : `${totalItems} items in your cart`}
           </p>
         </div>
 
@@ -142,13 +161,13 @@ export default function Cart() {
               </div>
 
               {cartItems.map((item) => (
-                <Card key={item.id}>
+                <Card key={getCartLineKey(item)}>
                   <CardContent className="p-6">
                     <div className="flex gap-4">
                       {/* Product Image */}
                       <div className="w-20 h-20 flex-shrink-0">
                         <img
-                          src={item.image || `https://placehold.co/80x80/f3f4f6/6b7280?text=${encodeURIComponent(item.name)}`}
+                          src={getProductImageUrl(item.image, "cart")}
                           alt={item.name}
                           className="w-full h-full object-cover rounded-md"
                         />
@@ -159,16 +178,28 @@ export default function Cart() {
                         <div className="flex items-start justify-between">
                           <div>
                             <h3 className="font-semibold text-lg">{item.name}</h3>
+                            {item.variantLabel && (
+                              <p className="text-sm">{item.variantLabel}</p>
+                            )}
                             <p className="text-muted-foreground text-sm">{item.category}</p>
                           </div>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => removeFromCart(item.id)}
-                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => saveForLater(item)}
+                            >
+                              Save for later
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeFromCart(getCartLineKey(item))}
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
                         </div>
 
                         <div className="flex items-center justify-between">
@@ -176,7 +207,7 @@ export default function Cart() {
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                              onClick={() => setQuantity(getCartLineKey(item), item.quantity - 1)}
                               disabled={item.quantity <= 1}
                             >
                               <Minus className="h-4 w-4" />
@@ -187,7 +218,7 @@ export default function Cart() {
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                              onClick={() => setQuantity(getCartLineKey(item), item.quantity + 1)}
                               disabled={item.quantity >= item.stock}
                             >
                               <Plus className="h-4 w-4" />
@@ -204,11 +235,11 @@ export default function Cart() {
                           </div>
                         </div>
 
-                        {item.quantity >= item.stock && (
+                        {renderLineIssue(item) ?? (item.quantity >= item.stock && (
                           <p className="text-sm text-amber-600">
                             Maximum available quantity reached
                           </p>
-                        )}
+                        ))}
                       </div>
                     </div>
                   </CardContent>
@@ -222,36 +253,30 @@ export default function Cart() {
                 <CardContent className="p-6 space-y-4">
                   <h2 className="text-xl font-semibold">Order Summary</h2>
                   
-                  <div className="space-y-2">
-                    <div className="flex justify-between">
-                      <span>Subtotal ({getTotalItems()} items)</span>
-                      <span>${getTotalPrice().toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Shipping</span>
-                      <span className="text-accent">Free</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Tax</span>
-                      <span>${(getTotalPrice() * 0.08).toFixed(2)}</span>
-                    </div>
-                  </div>
+                  <PromotionCodeInput promotion={promotion} error={promotionError} isChecking={isChecking} />
 
-                  <div className="border-t pt-4">
-                    <div className="flex justify-between text-lg font-semibold">
-                      <span>Total</span>
-                      <span>${(getTotalPrice() * 1.08).toFixed(2)}</span>
-                    </div>
-                  </div>
+                  <PriceSummary
+                    pricing={pricing}
+                    totalItems={totalItems}
+                    isEstimate
+                    promotionCode={promotion?.code}
+                  />
 
                   <Button 
                     onClick={handleProceedToCheckout}
                     className="w-full"
                     size="lg"
+                    disabled={hasIssues || isValidating}
                   >
                     Proceed to Checkout
                   </Button>
 
+                  {hasIssues && (
+                    <p className="text-sm text-destructive text-center">
+                      Some items changed since you added them. Review them above to continue.
+                    </p>
+                  )}
+
                   <Link to="/products" className="block">
                     <Button variant="outline" className="w-full">
                       Continue Shopping
@@ -262,6 +287,10 @@ export default function Cart() {
             </div>
           </div>
         )}
+
+        <div className="lg:w-2/3 mt-12">
+          <SavedItemsList items={savedItems} onMoveToCart={moveToCart} onRemove={removeFromSaved} />
+        </div>
       </main>
 
       <Footer />
@@ -1,222 +1,422 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
+import { Form } from "@/components/ui/form";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAddresses } from "@/hooks/use-addresses";
+import { useCart } from "@/hooks/use-cart";
+import { usePricing } from "@/hooks/use-pricing";
+import { usePromotion } from "@/hooks/use-promotion";
+import { useShippingCountries } from "@/hooks/use-shipping-countries";
 import { Loader2, Lock, CreditCard } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import PriceSummary from "@/components/PriceSummary";
+import PromotionCodeInput from "@/components/PromotionCodeInput";
+import ShippingAddressFields from "@/components/ShippingAddressFields";
+import { formatAddress, type Address } from "@/lib/addresses";
+import { MOCK_TEST_CARDS } from "@/lib/mock-payment-gateway";
+import {
+  clearCheckoutAttempt,
+  getCheckoutAttemptKey,
+  getOrderPath,
+  placeOrder,
+  type ShippingAddress,
+  type StockShortfall,
+} from "@/lib/orders";
+import { isFinalOrderStatus, updateOrderStatus } from "@/lib/order-status";
+import { createShippingAddressSchema, EMPTY_SHIPPING_ADDRESS } from "@/lib/shipping-countries";
+import {
+  isMockGatewayEnabled,
+  paymentGateway,
+  registerGuestOrder,
+  type CardDetails,
+  type PaymentResult,
+} from "@/lib/payments";
+import { getProductImageUrl } from "@/lib/product-images";
 import type { User } from "@supabase/supabase-js";
 
-interface CartItem {
-  id: string;
-  name: string;
-  price: number;
-  image: string;
-  stock: number;
-  quantity: number;
-}
+// Placing an order that takes longer than this is given up on. It may still
+// go through, which is safe because a retry sends the same idempotency key.
+const PLACE_ORDER_TIMEOUT_MS = 15_000;
+
+/** Value of the address picker while the form holds an address of its own. */
+const NEW_ADDRESS = "new";
 
-interface ShippingInfo {
-  firstName: string;
-  lastName: string;
-  email: string;
-  phone: string;
-  address: string;
-  city: string;
-  state: string;
-  zipCode: string;
+const SHIPPING_FIELDS = Object.keys(EMPTY_SHIPPING_ADDRESS) as (keyof ShippingAddress)[];
+
+const toShippingAddress = (address: Address): ShippingAddress =>
+  Object.fromEntries(SHIPPING_FIELDS.map((field) => [field, address[field]])) as unknown as ShippingAddress;
+
+interface PendingOrder {
+  id: string;
+  total: number;
+  /** Set for guest orders, which are opened by their access token. */
+  accessToken: string | null;
+  /** The cart, address and promotion code the order was placed with; see `getOrderDetails`. */
+  details: string;
 }
 
 export default function Checkout() {
   const [user, setUser] = useState<User | null>(null);
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const [isAuthChecked, setIsAuthChecked] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [shortfalls, setShortfalls] = useState<StockShortfall[]>([]);
+  const [cardInfo, setCardInfo] = useState<CardDetails>({ number: "", expiry: "", cvc: "" });
+  const [pendingOrder, setPendingOrder] = useState<PendingOrder | null>(null);
+  const [challenge, setChallenge] = useState<{ paymentId: string; message: string } | null>(null);
+  const [challengeCode, setChallengeCode] = useState("");
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [saveNewAddress, setSaveNewAddress] = useState(true);
+  const [makeDefault, setMakeDefault] = useState(false);
+  const orderPlacedRef = useRef(false);
+  // Blocks a second submit before the first one's state update disables the form
+  const submittingRef = useRef(false);
+  const { items: cartItems, isLoading: isCartLoading, totalItems, clear } = useCart();
+  const { addresses, defaultAddress, saveAddress, setDefaultAddress } = useAddresses(user?.id);
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  const [shippingInfo, setShippingInfo] = useState<ShippingInfo>({
-    firstName: "",
-    lastName: "",
-    email: "",
-    phone: "",
-    address: "",
-    city: "",
-    state: "",
-    zipCode: "",
+  // Validated per country here and again by place_order with the same rules
+  const { countries } = useShippingCountries();
+  const shippingSchema = useMemo(() => createShippingAddressSchema(countries), [countries]);
+  const form = useForm<ShippingAddress>({
+    resolver: zodResolver(shippingSchema),
+    defaultValues: EMPTY_SHIPPING_ADDRESS,
+  });
+  const shippingAddress = form.watch();
+
+  // Tax depends on the shipping country and state; the server prices the order the same way
+  const { promotion, error: promotionError, isChecking } = usePromotion();
+  const { pricing } = usePricing(cartItems, {
+    country: shippingAddress.country,
+    region: shippingAddress.state,
+    discount: promotion?.discount,
+    freeShipping: promotion?.free_shipping,
   });
 
+  // The mock gateway can only pay for orders where the database allows it
+  const isMockGateway = paymentGateway.provider === "mock";
+  const { data: mockGatewayEnabled = false, isLoading: isLoadingPaymentSettings } = useQuery({
+    queryKey: ["payment-settings"],
+    queryFn: isMockGatewayEnabled,
+    enabled: isMockGateway,
+  });
+  const canPay = !isMockGateway || mockGatewayEnabled;
+
+  // What an order is placed for. A pending order no longer matches once any of it changes.
+  const getOrderDetails = (address: ShippingAddress) =>
+    JSON.stringify({
+      items: cartItems.map(({ id, variantId, quantity }) => ({ id, variantId, quantity })),
+      address,
+      promotionCode: promotion?.code ?? null,
+    });
+
   useEffect(() => {
-    // Check authentication
+    // Without a session the customer checks out as a guest
     supabase.auth.getSession().then(({ data: { session } }) => {
-      if (!session) {
-        toast({
-          title: "Authentication required",
-          description: "Please log in to proceed with checkout.",
-          variant: "destructive",
-        });
-        navigate("/login");
-        return;
-      }
+      setIsAuthChecked(true);
+      if (!session) return;
+
       setUser(session.user);
-      setShippingInfo(prev => ({ ...prev, email: session.user.email || "" }));
+      if (!form.getValues("email")) form.setValue("email", session.user.email || "");
     });
+  }, [form]);
 
-    // Load cart
-    loadCartFromStorage();
-  }, [navigate]);
+  // Start from the default address once the address book has loaded, unless
+  // the customer has already started typing one
+  useEffect(() => {
+    if (selectedAddressId !== null || !defaultAddress || form.formState.isDirty) return;
+    setSelectedAddressId(defaultAddress.id);
+    form.reset(toShippingAddress(defaultAddress));
+  }, [defaultAddress, selectedAddressId, form]);
 
-  const loadCartFromStorage = () => {
-    try {
-      const savedCart = localStorage.getItem('cart');
-      if (savedCart) {
-        const items = JSON.parse(savedCart);
-        if (items.length === 0) {
-          toast({
-            title: "Empty cart",
-            description: "Your cart is empty. Add some items before checkout.",
-            variant: "destructive",
-          });
-          navigate("/cart");
-          return;
-        }
-        setCartItems(items);
-      } else {
-        navigate("/cart");
-      }
-    } catch (error) {
-      console.error('Error loading cart:', error);
+  useEffect(() => {
+    // The cart can also be emptied from another tab; clearing it after an order isn't that
+    if (isCartLoading || orderPlacedRef.current) return;
+    if (cartItems.length === 0) {
+      toast({
+        title: "Empty cart",
+        description: "Your cart is empty. Add some items before checkout.",
+        variant: "destructive",
+      });
       navigate("/cart");
     }
-  };
+  }, [isCartLoading, cartItems.length]);
 
-  const getTotalPrice = () => {
-    return cartItems.reduce((total, item) => total + (item.price * item.quantity), 0);
+  const handleAddressSelect = (id: string) => {
+    setSelectedAddressId(id);
+    setMakeDefault(false);
+
+    const address = addresses.find((saved) => saved.id === id);
+    form.reset(address ? toShippingAddress(address) : { ...EMPTY_SHIPPING_ADDRESS, email: user?.email || "" });
   };
 
-  const getTotalItems = () => {
-    return cartItems.reduce((total, item) => total + item.quantity, 0);
+  // An edited saved address counts as a new one; the saved entry stays as it was
+  const selectedAddress = addresses.find(
+    (address) =>
+      address.id === selectedAddressId && SHIPPING_FIELDS.every((field) => address[field] === shippingAddress[field])
+  );
+  const isNewAddress = !selectedAddress;
+  // A customer's first saved address becomes their default anyway
+  const canMakeDefault = isNewAddress ? saveNewAddress && addresses.length > 0 : !selectedAddress.is_default;
+
+  // The order has its own copy of the address, so a failure here only costs
+  // the customer the saved entry
+  const updateAddressBook = async (shippingAddress: ShippingAddress) => {
+    try {
+      if (selectedAddress) {
+        if (makeDefault) await setDefaultAddress(selectedAddress.id);
+      } else if (saveNewAddress) {
+        await saveAddress({ ...shippingAddress, is_default: makeDefault });
+      }
+    } catch (error) {
+      console.error("Error saving address:", error);
+    }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleCardChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
-    setShippingInfo(prev => ({
+    setCardInfo(prev => ({
       ...prev,
       [name]: value,
     }));
   };
 
-  const validateForm = () => {
-    const required = ['firstName', 'lastName', 'email', 'phone', 'address', 'city', 'state', 'zipCode'];
-    for (const field of required) {
-      if (!shippingInfo[field as keyof ShippingInfo].trim()) {
-        toast({
-          title: "Missing information",
-          description: `Please fill in all required fields.`,
-          variant: "destructive",
-        });
-        return false;
-      }
+  const validateCard = () => {
+    if (!cardInfo.number.trim() || !cardInfo.expiry.trim() || !cardInfo.cvc.trim()) {
+      toast({
+        title: "Missing payment details",
+        description: "Please enter your card number, expiry date and CVC.",
+        variant: "destructive",
+      });
+      return false;
     }
     return true;
   };
 
-  const handlePlaceOrder = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateForm()) return;
-    if (!user) return;
+  const completeOrder = (order: PendingOrder) => {
+    orderPlacedRef.current = true;
+    clearCheckoutAttempt();
+    clear();
+
+    toast({
+      title: "Order placed successfully!",
+      description: "Thank you for your purchase. We'll confirm your order as soon as the payment clears.",
+    });
 
+    navigate(getOrderPath(order.id, order.accessToken), { state: { placed: true } });
+  };
+
+  // Drives a payment through challenge and capture. The order is marked paid
+  // by the provider's webhook, not by anything the browser reports.
+  const handlePaymentResult = async (order: PendingOrder, payment: PaymentResult) => {
+    if (payment.status === "requires_action") {
+      setChallenge({ paymentId: payment.paymentId, message: payment.challenge?.message ?? "" });
+      return;
+    }
+
+    if (payment.status === "failed") {
+      toast({
+        title: "Payment declined",
+        description: `${payment.failureReason ?? "Your payment could not be processed."} Please try another card.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const captured = await paymentGateway.capture(payment.paymentId);
+    if (captured.status !== "captured") {
+      toast({
+        title: "Payment not completed",
+        description: `${captured.failureReason ?? "Your payment could not be captured."} Please try again.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    completeOrder(order);
+  };
+
+  const handlePlaceOrder = async (values: ShippingAddress) => {
+    if (submittingRef.current || !canPay || !validateCard()) return;
+
+    submittingRef.current = true;
     setIsProcessing(true);
+    setShortfalls([]);
+    let isPlacingOrder = false;
 
     try {
-      // Check stock availability before placing order
-      const stockChecks = await Promise.all(
-        cartItems.map(async (item) => {
-          const { data, error } = await supabase
-            .from('products')
-            .select('stock')
-            .eq('id', item.id)
-            .single();
-          
-          if (error) throw error;
-          return { id: item.id, currentStock: data.stock, requestedQty: item.quantity };
-        })
-      );
-
-      // Verify stock availability
-      const outOfStock = stockChecks.filter(check => check.currentStock < check.requestedQty);
-      if (outOfStock.length > 0) {
-        toast({
-          title: "Stock unavailable",
-          description: "Some items in your cart are no longer available in the requested quantity.",
-          variant: "destructive",
+      // A declined payment leaves the order pending, so a retry pays for it
+      // instead of placing a second one
+      let order = pendingOrder;
+      const details = getOrderDetails(values);
+
+      // Once the cart, address or code has changed, that order is cancelled
+      // to release its stock and a new one is placed
+      if (order && order.details !== details) {
+        await updateOrderStatus(order.id, "cancelled", {
+          note: "Checkout details changed",
+          accessToken: order.accessToken,
         });
-        return;
+        setPendingOrder(null);
+        clearCheckoutAttempt();
+        order = null;
       }
 
-      // Update product stock
-      const stockUpdates = cartItems.map(async (item) => {
-        const currentStock = stockChecks.find(check => check.id === item.id)?.currentStock || 0;
-        const newStock = currentStock - item.quantity;
-        
-        const { error } = await supabase
-          .from('products')
-          .update({ stock: newStock })
-          .eq('id', item.id);
-        
-        if (error) throw error;
-      });
+      if (!order) {
+        const promotionCode = promotion?.code ?? null;
+        const attemptDetails = {
+          items: cartItems.map(({ id, variantId, quantity }) => ({ id, variantId, quantity })),
+          address: values,
+          promotionCode,
+        };
+        // Stock is checked, decremented and the order created atomically on the server
+        const placeAttempt = async () =>
+          placeOrder(cartItems, values, promotionCode, {
+            idempotencyKey: await getCheckoutAttemptKey(attemptDetails),
+            signal: AbortSignal.timeout(PLACE_ORDER_TIMEOUT_MS),
+          });
 
-      await Promise.all(stockUpdates);
+        isPlacingOrder = true;
+        let result = await placeAttempt();
+        // The attempt's order was cancelled or refunded since and can't be paid
+        // for, so these details get a new attempt and a new order
+        if (result.replayed && isFinalOrderStatus(result.status)) {
+          clearCheckoutAttempt();
+          result = await placeAttempt();
+        }
+        isPlacingOrder = false;
 
-      // Create order
-      const orderData = {
-        user_id: user.id,
-        products: cartItems as any, // Cast to Json type
-        total: getTotalPrice() * 1.08, // Including tax
-        status: 'pending',
-      };
+        if (result.address_errors) {
+          for (const [field, message] of Object.entries(result.address_errors)) {
+            form.setError(field as keyof ShippingAddress, { message });
+          }
+          return;
+        }
+
+        if (result.promotion_error) {
+          // Refresh the code's status so the summary shows why it no longer applies
+          queryClient.invalidateQueries({ queryKey: ["promotion"] });
+          toast({
+            title: "Promotion code not applied",
+            description: `${result.promotion_error} Your order was not placed.`,
+            variant: "destructive",
+          });
+          return;
+        }
 
-      const { error: orderError } = await supabase
-        .from('orders')
-        .insert(orderData);
+        if (result.shortfalls.length > 0) {
+          setShortfalls(result.shortfalls);
+          toast({
+            title: "Stock unavailable",
+            description: "Some items in your cart are no longer available in the requested quantity.",
+            variant: "destructive",
+          });
+          return;
+        }
 
-      if (orderError) throw orderError;
+        order = {
+          id: result.order_id,
+          total: result.pricing.total,
+          accessToken: result.access_token ?? null,
+          details,
+        };
+        setPendingOrder(order);
+
+        if (order.accessToken) {
+          registerGuestOrder(order.id, order.accessToken);
+        } else if (!result.replayed) {
+          await updateAddressBook(values);
+        }
 
-      // Clear cart
-      localStorage.removeItem('cart');
+        // Another tab, or an attempt whose response was lost, already paid
+        if (result.replayed && result.status !== "pending" && !isFinalOrderStatus(result.status)) {
+          completeOrder(order);
+          return;
+        }
+      }
 
-      toast({
-        title: "Order placed successfully!",
-        description: "Thank you for your purchase. You'll receive a confirmation email shortly.",
+      const payment = await paymentGateway.authorize({
+        orderId: order.id,
+        amount: order.total,
+        currency: "usd",
+        card: cardInfo,
       });
-
-      navigate("/");
+      await handlePaymentResult(order, payment);
     } catch (error) {
       console.error('Error placing order:', error);
       toast({
         title: "Order failed",
-        description: "There was an error processing your order. Please try again.",
+        description: isPlacingOrder
+          ? "We couldn't confirm your order. Please try again; you won't be charged twice or get a duplicate order."
+          : "There was an error processing your order. Please try again.",
         variant: "destructive",
       });
     } finally {
+      submittingRef.current = false;
       setIsProcessing(false);
     }
   };
 
-  if (!user) {
+  const handleChallengeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+
+    setIsProcessing(true);
+
+    try {
+      const payment = await paymentGateway.completeChallenge(challenge.paymentId, challengeCode);
+      setChallenge(null);
+      setChallengeCode("");
+      await handlePaymentResult(pendingOrder, payment);
+    } catch (error) {
+      console.error('Error completing payment challenge:', error);
+      toast({
+        title: "Payment failed",
+        description: "There was an error verifying your payment. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleChallengeCancel = () => {
+    setChallenge(null);
+    setChallengeCode("");
+    toast({
+      title: "Payment cancelled",
+      description: "Your card was not charged. You can try again or use another card.",
+    });
+  };
+
+  if (!isAuthChecked) {
     return (
       <div className="min-h-screen">
         <Header />
         <main className="container mx-auto px-4 py-8">
           <div className="text-center py-12">
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-            <p className="mt-4 text-muted-foreground">Checking authentication...</p>
+            <p className="mt-4 text-muted-foreground">Loading checkout...</p>
           </div>
         </main>
         <Footer />
@@ -247,114 +447,131 @@ export default function Checkout() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <form onSubmit={handlePlaceOrder} className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="firstName">First Name *</Label>
-                      <Input
-                        id="firstName"
-                        name="firstName"
-                        value={shippingInfo.firstName}
-                        onChange={handleInputChange}
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="lastName">Last Name *</Label>
-                      <Input
-                        id="lastName"
-                        name="lastName"
-                        value={shippingInfo.lastName}
-                        onChange={handleInputChange}
-                        required
-                      />
-                    </div>
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="email">Email *</Label>
-                    <Input
-                      id="email"
-                      name="email"
-                      type="email"
-                      value={shippingInfo.email}
-                      onChange={handleInputChange}
-                      required
-                    />
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="phone">Phone *</Label>
-                    <Input
-                      id="phone"
-                      name="phone"
-                      type="tel"
-                      value={shippingInfo.phone}
-                      onChange={handleInputChange}
-                      required
-                    />
-                  </div>
+                <Form {...form}>
+                  <form id="checkout-form" onSubmit={form.handleSubmit(handlePlaceOrder)} className="space-y-4">
+                    {!user && (
+                      <p className="text-sm text-muted-foreground">
+                        You're checking out as a guest, so your order will be linked to the email below.{" "}
+                        <Link to="/login" className="text-primary hover:underline">
+                          Log in
+                        </Link>{" "}
+                        to use your saved addresses.
+                      </p>
+                    )}
+                    {addresses.length > 0 && (
+                      <div className="space-y-2">
+                        <Label htmlFor="savedAddress">Ship to</Label>
+                        <Select value={selectedAddress?.id ?? NEW_ADDRESS} onValueChange={handleAddressSelect}>
+                          <SelectTrigger id="savedAddress">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {addresses.map((address) => (
+                              <SelectItem key={address.id} value={address.id}>
+                                {address.label || `${address.first_name} ${address.last_name}`} — {formatAddress(address)}
+                                {address.is_default && " (default)"}
+                              </SelectItem>
+                            ))}
+                            <SelectItem value={NEW_ADDRESS}>Enter a new address</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
+                    <ShippingAddressFields countries={countries} />
+
+                    {user && isNewAddress && (
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="saveNewAddress"
+                          checked={saveNewAddress}
+                          onCheckedChange={(checked) => setSaveNewAddress(checked === true)}
+                        />
+                        <Label htmlFor="saveNewAddress">Save this address to my address book</Label>
+                      </div>
+                    )}
+                    {canMakeDefault && (
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="makeDefault"
+                          checked={makeDefault}
+                          onCheckedChange={(checked) => setMakeDefault(checked === true)}
+                        />
+                        <Label htmlFor="makeDefault">Make this my default address</Label>
+                      </div>
+                    )}
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
 
+            {/* Payment Information */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CreditCard className="h-5 w-5" />
+                  Payment Information
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="address">Address *</Label>
+                    <Label htmlFor="cardNumber">Card Number *</Label>
                     <Input
-                      id="address"
-                      name="address"
-                      value={shippingInfo.address}
-                      onChange={handleInputChange}
+                      id="cardNumber"
+                      name="number"
+                      inputMode="numeric"
+                      autoComplete="cc-number"
+                      placeholder="4242 4242 4242 4242"
+                      value={cardInfo.number}
+                      onChange={handleCardChange}
                       required
                     />
                   </div>
-
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="city">City *</Label>
+                      <Label htmlFor="cardExpiry">Expiry *</Label>
                       <Input
-                        id="city"
-                        name="city"
-                        value={shippingInfo.city}
-                        onChange={handleInputChange}
+                        id="cardExpiry"
+                        name="expiry"
+                        autoComplete="cc-exp"
+                        placeholder="MM/YY"
+                        value={cardInfo.expiry}
+                        onChange={handleCardChange}
                         required
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="state">State *</Label>
+                      <Label htmlFor="cardCvc">CVC *</Label>
                       <Input
-                        id="state"
-                        name="state"
-                        value={shippingInfo.state}
-                        onChange={handleInputChange}
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="zipCode">ZIP Code *</Label>
-                      <Input
-                        id="zipCode"
-                        name="zipCode"
-                        value={shippingInfo.zipCode}
-                        onChange={handleInputChange}
+                        id="cardCvc"
+                        name="cvc"
+                        inputMode="numeric"
+                        autoComplete="cc-csc"
+                        placeholder="123"
+                        value={cardInfo.cvc}
+                        onChange={handleCardChange}
                         required
                       />
                     </div>
                   </div>
-                </form>
-              </CardContent>
-            </Card>
-
-            {/* Payment Information (Mock) */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <CreditCard className="h-5 w-5" />
-                  Payment Information
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="bg-muted/50 p-4 rounded-lg">
-                  <p className="text-sm text-muted-foreground text-center">
-                    This is a demo checkout. No real payment will be processed.
-                  </p>
+                  {!canPay && !isLoadingPaymentSettings && (
+                    <div className="bg-destructive/10 p-4 rounded-lg text-sm text-destructive">
+                      Card payments aren't available yet, so orders can't be placed right now.
+                    </div>
+                  )}
+                  {isMockGateway && mockGatewayEnabled && (
+                    <div className="bg-muted/50 p-4 rounded-lg space-y-1 text-sm text-muted-foreground">
+                      <p>Test mode: no real payment will be processed. Use any future expiry date and CVC with:</p>
+                      <ul className="space-y-0.5">
+                        {MOCK_TEST_CARDS.map((card) => (
+                          <li key={card.number}>
+                            <span className="font-mono">{card.number}</span> {card.outcome.toLowerCase()}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -369,53 +586,60 @@ export default function Checkout() {
               <CardContent className="space-y-4">
                 {/* Order Items */}
                 <div className="space-y-3 max-h-64 overflow-y-auto">
-                  {cartItems.map((item) => (
-                    <div key={item.id} className="flex gap-3">
-                      <img
-                        src={item.image || `https://placehold.co/60x60/f3f4f6/6b7280?text=${encodeURIComponent(item.name)}`}
-                        alt={item.name}
-                        className="w-15 h-15 object-cover rounded-md"
-                      />
-                      <div className="flex-1">
-                        <h4 className="font-medium text-sm">{item.name}</h4>
-                        <p className="text-sm text-muted-foreground">
-                          Qty: {item.quantity} × ${item.price.toFixed(2)}
-                        </p>
-                      </div>
-                      <div className="text-right">
-                        <p className="font-medium">${(item.price * item.quantity).toFixed(2)}</p>
+                  {cartItems.map((item) => {
+                    const shortfall = shortfalls.find(
+                      s => s.product_id === item.id && s.variant_id === (item.variantId ?? null)
+                    );
+                    return (
+                      <div key={item.variantId ?? item.id} className="flex gap-3">
+                        <img
+                          src={getProductImageUrl(item.image, "cart")}
+                          alt={item.name}
+                          className="w-15 h-15 object-cover rounded-md"
+                        />
+                        <div className="flex-1">
+                          <h4 className="font-medium text-sm">{item.name}</h4>
+                          {item.variantLabel && (
+                            <p className="text-xs text-muted-foreground">{item.variantLabel}</p>
+                          )}
+                          <p className="text-sm text-muted-foreground">
+                            Qty: {item.quantity} × ${item.price.toFixed(2)}
+                          </p>
+                          {shortfall && (
+                            <p className="text-sm text-destructive">
+                              {shortfall.available === 0
+                                ? "Out of stock"
+                                : `Only ${shortfall.available} available`}
+                            </p>
+                          )}
+                        </div>
+                        <div className="text-right">
+                          <p className="font-medium">${(item.price * item.quantity).toFixed(2)}</p>
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
 
                 {/* Order Totals */}
-                <div className="border-t pt-4 space-y-2">
-                  <div className="flex justify-between">
-                    <span>Subtotal ({getTotalItems()} items)</span>
-                    <span>${getTotalPrice().toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Shipping</span>
-                    <span className="text-accent">Free</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Tax</span>
-                    <span>${(getTotalPrice() * 0.08).toFixed(2)}</span>
-                  </div>
-                  <div className="border-t pt-2">
-                    <div className="flex justify-between text-lg font-semibold">
-                      <span>Total</span>
-                      <span>${(getTotalPrice() * 1.08).toFixed(2)}</span>
-                    </div>
-                  </div>
+                <div className="border-t pt-4">
+                  <PromotionCodeInput promotion={promotion} error={promotionError} isChecking={isChecking} />
                 </div>
 
+                <PriceSummary
+                  pricing={pricing}
+                  totalItems={totalItems}
+                  isEstimate={!shippingAddress.state}
+                  promotionCode={promotion?.code}
+                />
+
+                {/* Submits the shipping form, so there is one submit path */}
                 <Button
-                  onClick={handlePlaceOrder}
+                  type="submit"
+                  form="checkout-form"
                   className="w-full"
                   size="lg"
-                  disabled={isProcessing}
+                  disabled={isProcessing || !canPay}
                 >
                   {isProcessing ? (
                     <>
@@ -436,6 +660,35 @@ export default function Checkout() {
         </div>
       </main>
 
+      <Dialog open={challenge !== null} onOpenChange={(open) => !open && !isProcessing && handleChallengeCancel()}>
+        <DialogContent className="sm:max-w-sm">
+          <form onSubmit={handleChallengeSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Verify your payment</DialogTitle>
+              <DialogDescription>{challenge?.message}</DialogDescription>
+            </DialogHeader>
+            <Input
+              value={challengeCode}
+              onChange={(e) => setChallengeCode(e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="Verification code"
+              aria-label="Verification code"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleChallengeCancel} disabled={isProcessing}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isProcessing || !challengeCode.trim()}>
+                {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Verify
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       <Footer />
     </div>
   );
@@ -7,6 +7,9 @@ import { ShoppingCart, Star, TrendingUp, Filter } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import ProductCard from "@/components/ProductCard";
+import { useCart } from "@/hooks/use-cart";
+import { useCategories } from "@/hooks/use-categories";
+import { getCategoryTreeIds, getChildCategories } from "@/lib/categories";
 
 interface Product {
   id: string;
@@ -15,6 +18,7 @@ interface Product {
   image: string;
   stock: number;
   category: string;
+  category_id: string | null;
   description: string;
 }
 
@@ -24,8 +28,10 @@ export default function Home() {
   const [isLoading, setIsLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<string>("All");
   const { toast } = useToast();
+  const { addItem } = useCart();
+  const { categories } = useCategories();
 
-  const categories = ["All", "Electronics", "Clothing", "Groceries"];
+  const topLevelCategories = getChildCategories(categories, null);
 
   useEffect(() => {
     fetchProducts();
@@ -79,32 +85,14 @@ export default function Home() {
     }
   };
 
+  const selectedCategoryIds = selectedCategory === "All" ? [] : getCategoryTreeIds(categories, selectedCategory);
+
   const filteredProducts = selectedCategory === "All" 
     ? featuredProducts
-    : featuredProducts.filter(product => product.category === selectedCategory);
+    : featuredProducts.filter(product => selectedCategoryIds.includes(product.category_id));
 
   const handleAddToCart = (product: Product) => {
-    // Get existing cart from localStorage
-    const existingCart = JSON.parse(localStorage.getItem('cart') || '[]');
-    
-    // Check if product already exists in cart
-    const existingItemIndex = existingCart.findIndex((item: any) => item.id === product.id);
-    
-    if (existingItemIndex > -1) {
-      // Update quantity
-      existingCart[existingItemIndex].quantity += 1;
-    } else {
-      // Add new item
-      existingCart.push({ ...product, quantity: 1 });
-    }
-    
-    // Save back to localStorage
-    localStorage.setItem('cart', JSON.stringify(existingCart));
-    
-    toast({
-      title: "Added to cart",
-      description: `${product.name} has been added to your cart.`,
-    });
+    addItem(product);
   };
 
   return (
@@ -166,15 +154,23 @@ export default function Home() {
 
           {/* Category Filters */}
           <div className="flex flex-wrap justify-center gap-2 mb-8">
-            {categories.map((category) => (
+            <Button
+              variant={selectedCategory === "All" ? "default" : "outline"}
+              onClick={() => setSelectedCategory("All")}
+              className="flex items-center gap-2"
+            >
+              <Filter className="h-4 w-4" />
+              All
+            </Button>
+            {topLevelCategories.map((category) => (
               <Button
-                key={category}
-                variant={selectedCategory === category ? "default" : "outline"}
-                onClick={() => setSelectedCategory(category)}
+                key={category.id}
+                variant={selectedCategory === category.id ? "default" : "outline"}
+                onClick={() => setSelectedCategory(category.id)}
                 className="flex items-center gap-2"
               >
                 <Filter className="h-4 w-4" />
-                {category}
+                {category.name}
               </Button>
             ))}
           </div>
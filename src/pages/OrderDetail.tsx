@@ -0,0 +1,343 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, CheckCircle, Copy, Printer, XCircle } from "lucide-react";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import PriceSummary from "@/components/PriceSummary";
+import { fetchGuestOrder, fetchOrder } from "@/lib/orders";
+import {
+  canTransitionOrderStatus,
+  fetchOrderStatusHistory,
+  getOrderStatusLabel,
+  updateOrderStatus,
+} from "@/lib/order-status";
+
+// Guests can't subscribe to their order, so a pending one is polled instead
+const GUEST_REFRESH_INTERVAL_MS = 5000;
+
+export default function OrderDetail() {
+  const { id } = useParams<{ id: string }>();
+  // Checkout arrives here with `placed` set, to thank the customer
+  const isNewOrder = (useLocation().state as { placed?: boolean } | null)?.placed === true;
+  const [searchParams] = useSearchParams();
+  // Guest orders are opened by the access token in their link
+  const accessToken = searchParams.get("token");
+  const [userId, setUserId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (accessToken) return;
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in to view your order.",
+          variant: "destructive",
+        });
+        navigate("/login");
+        return;
+      }
+      setUserId(session.user.id);
+    });
+  }, [navigate, accessToken]);
+
+  // Row level security only returns orders that belong to the signed-in user,
+  // and a guest order needs its token, so anyone else's order reads as not found
+  const { data: order, isLoading } = useQuery({
+    queryKey: ["order", id, accessToken],
+    queryFn: () => (accessToken ? fetchGuestOrder(id, accessToken) : fetchOrder(id)),
+    enabled: (!!userId || !!accessToken) && !!id,
+    refetchInterval: (query) =>
+      accessToken && query.state.data?.status === "pending" ? GUEST_REFRESH_INTERVAL_MS : false,
+  });
+
+  // Status history is only shown to signed-in owners; it shares the order's key
+  // prefix so the realtime subscription below refreshes both
+  const { data: statusHistory = [] } = useQuery({
+    queryKey: ["order", id, "history"],
+    queryFn: () => fetchOrderStatusHistory(id),
+    enabled: !!userId && !!id,
+  });
+
+  // Payment is confirmed by a webhook that can land after this page opens
+  useEffect(() => {
+    if (!userId || !id) return;
+
+    const channel = supabase
+      .channel(`order-${id}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "orders", filter: `id=eq.${id}` },
+        () => queryClient.invalidateQueries({ queryKey: ["order", id] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, id, queryClient]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link copied", description: "Keep it to check on your order later." });
+    } catch {
+      toast({ title: "Couldn't copy the link", description: "Copy it from the address bar instead.", variant: "destructive" });
+    }
+  };
+
+  const handleCancelOrder = async () => {
+    setIsCancelling(true);
+    try {
+      await updateOrderStatus(id, "cancelled", { accessToken });
+      await queryClient.invalidateQueries({ queryKey: ["order", id] });
+      toast({ title: "Order cancelled", description: "Your order has been cancelled." });
+    } catch (error) {
+      console.error("Error cancelling order", error);
+      toast({
+        title: "Couldn't cancel the order",
+        description: "It may already have been paid for. Please refresh and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  if ((!userId && !accessToken) || isLoading) {
+    return (
+      <div className="min-h-screen">
+        <Header />
+        <main className="container mx-auto px-4 py-8">
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            <p className="mt-4 text-muted-foreground">Loading order...</p>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen">
+        <Header />
+        <main className="container mx-auto px-4 py-8">
+          <div className="text-center py-12 space-y-4">
+            <h2 className="text-2xl font-bold">Order Not Found</h2>
+            <p className="text-muted-foreground">We couldn't find this order in your account.</p>
+            <Link to="/products">
+              <Button>Continue Shopping</Button>
+            </Link>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  const address = order.shipping_address;
+  const totalItems = order.order_items.reduce((total, item) => total + item.quantity, 0);
+  const canCancel = (!!userId || !!accessToken) && canTransitionOrderStatus(order.status, "cancelled");
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto space-y-8">
+          {userId && !isNewOrder && (
+            <Link
+              to="/orders"
+              className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground print:hidden"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to orders
+            </Link>
+          )}
+
+          <div className="text-center space-y-4">
+            {isNewOrder && <CheckCircle className="h-16 w-16 text-accent mx-auto print:hidden" />}
+            <h1 className="text-3xl md:text-4xl font-bold">
+              {isNewOrder ? "Thank you for your order!" : "Order Details"}
+            </h1>
+            <p className="text-muted-foreground">
+              Order <span className="font-mono">{order.id}</span> placed on{" "}
+              {new Date(order.created_at).toLocaleDateString("en-US", {
+                year: "numeric",
+                month: "long",
+                day: "numeric",
+              })}
+            </p>
+            <OrderStatusBadge status={order.status} />
+          </div>
+
+          {order.guest_email && (
+            <Card className="print:hidden">
+              <CardHeader>
+                <CardTitle>Keep this link</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                <p className="text-muted-foreground">
+                  You checked out as a guest. This page's link is the only way to see this order, so save
+                  it somewhere safe. If you create an account with {order.guest_email}, the order is added to
+                  it once you confirm your email.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Button variant="outline" onClick={handleCopyLink}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy Order Link
+                  </Button>
+                  <Link to={`/signup?email=${encodeURIComponent(order.guest_email)}`}>
+                    <Button className="w-full">Create an Account</Button>
+                  </Link>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Items</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {order.order_items.map((item) => (
+                <div key={item.id} className="flex justify-between gap-4">
+                  <div>
+                    <p className="font-medium">{item.product_name}</p>
+                    {item.variant_name && (
+                      <p className="text-sm text-muted-foreground">{item.variant_name}</p>
+                    )}
+                    <p className="text-sm text-muted-foreground">
+                      {item.quantity} × ${item.unit_price.toFixed(2)}
+                    </p>
+                  </div>
+                  <p className="font-medium">${(item.unit_price * item.quantity).toFixed(2)}</p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>Shipping Address</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {address ? (
+                  <div className="space-y-1 text-sm">
+                    <p className="font-medium">{address.first_name} {address.last_name}</p>
+                    <p>{address.address}</p>
+                    <p>{address.city}, {address.state} {address.zip_code}</p>
+                    {address.country && <p>{address.country}</p>}
+                    <p className="text-muted-foreground">{address.email}</p>
+                    <p className="text-muted-foreground">{address.phone}</p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No shipping address was recorded for this order.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Order Summary</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PriceSummary pricing={order} totalItems={totalItems} promotionCode={order.promotion_code} />
+              </CardContent>
+            </Card>
+          </div>
+
+          {statusHistory.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Order History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ol className="space-y-3">
+                  {[...statusHistory].reverse().map((change) => (
+                    <li key={change.id} className="flex justify-between gap-4 text-sm">
+                      <span className="font-medium">{getOrderStatusLabel(change.to_status)}</span>
+                      <span className="text-muted-foreground">{formatDateTime(change.created_at)}</span>
+                    </li>
+                  ))}
+                </ol>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-4 justify-center print:hidden">
+            {canCancel && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={isCancelling}>
+                    <XCircle className="mr-2 h-4 w-4" />
+                    Cancel Order
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Cancel this order?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The order hasn't been paid for yet. Once cancelled it can't be paid for or reopened.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Keep Order</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={handleCancelOrder}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Cancel Order
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+            <Button variant="outline" onClick={() => window.print()}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print Receipt
+            </Button>
+            <Link to="/products">
+              <Button className="w-full">Continue Shopping</Button>
+            </Link>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronRight, Package } from "lucide-react";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { fetchOrders } from "@/lib/orders";
+
+const PAGE_SIZE = 10;
+
+/** Page numbers to show around the current page, with null for a gap. */
+const getPageNumbers = (page: number, pageCount: number): (number | null)[] => {
+  const pages = [...new Set([1, page - 1, page, page + 1, pageCount])]
+    .filter((p) => p >= 1 && p <= pageCount)
+    .sort((a, b) => a - b);
+
+  return pages.flatMap((p, i) => (i > 0 && p - pages[i - 1] > 1 ? [null, p] : [p]));
+};
+
+export default function Orders() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        toast({
+          title: "Authentication required",
+          description: "Please log in to view your orders.",
+          variant: "destructive",
+        });
+        navigate("/login");
+        return;
+      }
+      setUserId(session.user.id);
+    });
+  }, [navigate]);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["orders", userId, page],
+    queryFn: () => fetchOrders(page, PAGE_SIZE),
+    enabled: !!userId,
+    placeholderData: keepPreviousData,
+  });
+
+  // Statuses change as payments are confirmed and orders are fulfilled
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`orders-${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "orders", filter: `user_id=eq.${userId}` },
+        () => queryClient.invalidateQueries({ queryKey: ["orders", userId] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  const pageCount = Math.max(1, Math.ceil((data?.count ?? 0) / PAGE_SIZE));
+
+  const goToPage = (next: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (next < 1 || next > pageCount || next === page) return;
+    setSearchParams(next === 1 ? {} : { page: String(next) });
+    window.scrollTo({ top: 0 });
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+
+  if (!userId || isLoading) {
+    return (
+      <div className="min-h-screen">
+        <Header />
+        <main className="container mx-auto px-4 py-8">
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            <p className="mt-4 text-muted-foreground">Loading orders...</p>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto space-y-8">
+          <div className="space-y-4">
+            <h1 className="text-3xl md:text-4xl font-bold">Your Orders</h1>
+            <p className="text-muted-foreground text-lg">Track your orders and view past purchases</p>
+          </div>
+
+          {isError ? (
+            <div className="text-center py-12">
+              <h2 className="text-2xl font-bold">Couldn't load your orders</h2>
+              <p className="text-muted-foreground">Please refresh the page to try again.</p>
+            </div>
+          ) : data.orders.length === 0 ? (
+            <div className="text-center py-12 space-y-4">
+              <Package className="h-16 w-16 text-muted-foreground mx-auto" />
+              <h2 className="text-2xl font-bold">No orders yet</h2>
+              <p className="text-muted-foreground">When you place an order, it will show up here.</p>
+              <Link to="/products">
+                <Button>Start Shopping</Button>
+              </Link>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-4">
+                {data.orders.map((order) => {
+                  const itemCount = order.order_items.reduce((total, item) => total + item.quantity, 0);
+
+                  return (
+                    <Link key={order.id} to={`/order/${order.id}`} className="block">
+                      <Card className="transition-colors hover:bg-muted/50">
+                        <CardContent className="p-6 flex items-center justify-between gap-4">
+                          <div className="space-y-1 min-w-0">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <p className="font-medium">{formatDate(order.created_at)}</p>
+                              <OrderStatusBadge status={order.status} />
+                            </div>
+                            <p className="text-sm text-muted-foreground font-mono truncate">{order.id}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {itemCount} {itemCount === 1 ? "item" : "items"}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold">${order.total.toFixed(2)}</span>
+                            <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                          </div>
+                        </CardContent>
+                      </Card>
+                    </Link>
+                  );
+                })}
+              </div>
+
+              {pageCount > 1 && (
+                <Pagination>
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href={`?page=${page - 1}`}
+                        onClick={goToPage(page - 1)}
+                        aria-disabled={page === 1}
+                        className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+                      />
+                    </PaginationItem>
+                    {getPageNumbers(page, pageCount).map((p, i) =>
+                      p === null ? (
+                        <PaginationItem key={`gap-${i}`}>
+                          <PaginationEllipsis />
+                        </PaginationItem>
+                      ) : (
+                        <PaginationItem key={p}>
+                          <PaginationLink href={`?page=${p}`} onClick={goToPage(p)} isActive={p === page}>
+                            {p}
+                          </PaginationLink>
+                        </PaginationItem>
+                      )
+                    )}
+                    <PaginationItem>
+                      <PaginationNext
+                        href={`?page=${page + 1}`}
+                        onClick={goToPage(page + 1)}
+                        aria-disabled={page === pageCount}
+                        className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, Fragment } from "react";
 import { useParams, Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -8,6 +8,21 @@ import { ShoppingCart, ArrowLeft, Heart, Share2 } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import ProductCard from "@/components/ProductCard";
+import ProductGallery from "@/components/ProductGallery";
+import { useCart } from "@/hooks/use-cart";
+import { useCategories } from "@/hooks/use-categories";
+import { getCategoryPath } from "@/lib/categories";
+import {
+  VARIANT_SELECT,
+  findVariant,
+  getVariantLabel,
+  selectionForVariant,
+  sortOptions,
+  variantsForValue,
+  type ProductOption,
+  type ProductVariant,
+  type VariantSelection,
+} from "@/lib/variants";
 
 interface Product {
   id: string;
@@ -16,16 +31,24 @@ interface Product {
   image: string;
   stock: number;
   category: string;
+  category_id: string | null;
   description: string;
+  has_variants: boolean;
 }
 
 export default function ProductDetail() {
   const { id } = useParams<{ id: string }>();
   const [product, setProduct] = useState<Product | null>(null);
+  const [images, setImages] = useState<string[]>([]);
+  const [options, setOptions] = useState<ProductOption[]>([]);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [selection, setSelection] = useState<VariantSelection>({});
   const [relatedProducts, setRelatedProducts] = useState<Product[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [quantity, setQuantity] = useState(1);
   const { toast } = useToast();
+  const { addItem } = useCart();
+  const { categories } = useCategories();
 
   useEffect(() => {
     if (id) {
@@ -35,7 +58,7 @@ export default function ProductDetail() {
 
   useEffect(() => {
     if (product) {
-      fetchRelatedProducts(product.category, product.id);
+      fetchRelatedProducts(product.category_id, product.id);
     }
   }, [product]);
 
@@ -44,13 +67,25 @@ export default function ProductDetail() {
       setIsLoading(true);
       const { data, error } = await supabase
         .from('products')
-        .select('*')
+        .select(`*, product_images(url, position), ${VARIANT_SELECT}`)
         .eq('id', productId)
+        .order('position', { referencedTable: 'product_images' })
         .single();
 
       if (error) throw error;
 
+      const productOptions = sortOptions(data.product_options);
+      const productVariants = data.product_variants;
+
       setProduct(data);
+      setImages(data.product_images.map((image) => image.url));
+      setOptions(productOptions);
+      setVariants(productVariants);
+
+      // Preselect the first variant that is in stock
+      const initialVariant = productVariants.find((variant) => variant.stock > 0) ?? productVariants[0];
+      setSelection(initialVariant ? selectionForVariant(productOptions, initialVariant) : {});
+      setQuantity(1);
     } catch (error) {
       console.error('Error fetching product:', error);
       toast({
@@ -63,12 +98,17 @@ export default function ProductDetail() {
     }
   };
 
-  const fetchRelatedProducts = async (category: string, currentProductId: string) => {
+  const fetchRelatedProducts = async (categoryId: string | null, currentProductId: string) => {
+    if (!categoryId) {
+      setRelatedProducts([]);
+      return;
+    }
+
     try {
       const { data, error } = await supabase
         .from('products')
         .select('*')
-        .eq('category', category)
+        .eq('category_id', categoryId)
         .neq('id', currentProductId)
         .limit(4);
 
@@ -80,35 +120,35 @@ export default function ProductDetail() {
     }
   };
 
+  const selectedVariant = product?.has_variants ? findVariant(options, variants, selection) : undefined;
+  const price = selectedVariant?.price ?? product?.price ?? 0;
+  const availableStock = product?.has_variants ? (selectedVariant?.stock ?? 0) : (product?.stock ?? 0);
+
+  const handleSelectValue = (optionId: string, valueId: string) => {
+    setSelection(prev => ({ ...prev, [optionId]: valueId }));
+    setQuantity(1);
+  };
+
   const handleAddToCart = () => {
     if (!product) return;
+    if (product.has_variants && !selectedVariant) return;
 
-    // Get existing cart from localStorage
-    const existingCart = JSON.parse(localStorage.getItem('cart') || '[]');
-    
-    // Check if product already exists in cart
-    const existingItemIndex = existingCart.findIndex((item: any) => item.id === product.id);
-    
-    if (existingItemIndex > -1) {
-      // Update quantity
-      existingCart[existingItemIndex].quantity += quantity;
-    } else {
-      // Add new item
-      existingCart.push({ ...product, quantity });
-    }
-    
-    // Save back to localStorage
-    localStorage.setItem('cart', JSON.stringify(existingCart));
-    
-    toast({
-      title: "Added to cart",
-      description: `${quantity} ${product.name}(s) added to your cart.`,
-    });
+    // Cart lines are keyed by variant when the product has variants
+    addItem(
+      {
+        ...product,
+        price,
+        stock: availableStock,
+        variantId: selectedVariant?.id ?? null,
+        variantLabel: selectedVariant ? getVariantLabel(options, selectedVariant) : null,
+      },
+      quantity
+    );
   };
 
   const stockStatus = product ? (
-    product.stock > 10 ? "in-stock" : 
-    product.stock > 0 ? "low-stock" : 
+    availableStock > 10 ? "in-stock" : 
+    availableStock > 0 ? "low-stock" : 
     "out-of-stock"
   ) : "out-of-stock";
 
@@ -119,7 +159,7 @@ export default function ProductDetail() {
 
   const stockText = product ? (
     stockStatus === "out-of-stock" ? "Out of Stock" : 
-    `In Stock: ${product.stock}`
+    `In Stock: ${availableStock}`
   ) : "";
 
   if (isLoading) {
@@ -169,21 +209,27 @@ export default function ProductDetail() {
           <span>/</span>
           <Link to="/products" className="hover:text-primary">Products</Link>
           <span>/</span>
+          {getCategoryPath(categories, product.category_id).map((category) => (
+            <Fragment key={category.id}>
+              <Link
+                to={`/products?category=${encodeURIComponent(category.slug)}`}
+                className="hover:text-primary"
+              >
+                {category.name}
+              </Link>
+              <span>/</span>
+            </Fragment>
+          ))}
           <span className="text-foreground">{product.name}</span>
         </nav>
 
         {/* Product Details */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 mb-16">
-          {/* Product Image */}
-          <div className="space-y-4">
-            <div className="aspect-square overflow-hidden rounded-lg bg-surface">
-              <img
-                src={product.image || `https://placehold.co/600x600/f3f4f6/6b7280?text=${encodeURIComponent(product.name)}`}
-                alt={product.name}
-                className="w-full h-full object-cover"
-              />
-            </div>
-          </div>
+          {/* Product Images */}
+          <ProductGallery
+            images={images.length > 0 ? images : product.image ? [product.image] : []}
+            alt={product.name}
+          />
 
           {/* Product Info */}
           <div className="space-y-6">
@@ -194,7 +240,7 @@ export default function ProductDetail() {
               <h1 className="text-3xl md:text-4xl font-bold mb-4">{product.name}</h1>
               <div className="flex items-center gap-4 mb-4">
                 <span className="text-3xl font-bold text-primary">
-                  ${product.price.toFixed(2)}
+                  ${price.toFixed(2)}
                 </span>
                 <Badge className={stockBadgeClass}>
                   {stockText}
@@ -208,8 +254,46 @@ export default function ProductDetail() {
               </p>
             </div>
 
+            {/* Variant Selectors */}
+            {product.has_variants && options.map((option) => (
+              <div key={option.id} className="space-y-2">
+                <p className="font-medium">
+                  {option.name}
+                  {selection[option.id] && (
+                    <span className="ml-2 font-normal text-muted-foreground">
+                      {option.product_option_values.find((value) => value.id === selection[option.id])?.value}
+                    </span>
+                  )}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {option.product_option_values.map((value) => {
+                    const matching = variantsForValue(variants, selection, option.id, value.id);
+                    const isSoldOut = matching.length > 0 && matching.every((variant) => variant.stock === 0);
+                    return (
+                      <Button
+                        key={value.id}
+                        variant={selection[option.id] === value.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => handleSelectValue(option.id, value.id)}
+                        disabled={matching.length === 0}
+                        className={isSoldOut ? "line-through" : undefined}
+                      >
+                        {value.value}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+
+            {product.has_variants && !selectedVariant && (
+              <p className="text-muted-foreground">
+                This combination is not available. Please choose different options.
+              </p>
+            )}
+
             {/* Quantity and Add to Cart */}
-            {product.stock > 0 && (
+            {availableStock > 0 && (
               <div className="space-y-4">
                 <div className="flex items-center gap-4">
                   <label className="font-medium">Quantity:</label>
@@ -228,8 +312,8 @@ export default function ProductDetail() {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => setQuantity(Math.min(product.stock, quantity + 1))}
-                      disabled={quantity >= product.stock}
+                      onClick={() => setQuantity(Math.min(availableStock, quantity + 1))}
+                      disabled={quantity >= availableStock}
                     >
                       +
                     </Button>
@@ -255,13 +339,15 @@ export default function ProductDetail() {
               </div>
             )}
 
-            {product.stock === 0 && (
+            {availableStock === 0 && (
               <div className="space-y-4">
                 <Button disabled size="lg" className="w-full">
                   Out of Stock
                 </Button>
                 <p className="text-muted-foreground text-center">
-                  This product is currently unavailable.
+                  {product.has_variants
+                    ? "This option is currently unavailable."
+                    : "This product is currently unavailable."}
                 </p>
               </div>
             )}
@@ -277,23 +363,7 @@ export default function ProductDetail() {
                 <ProductCard
                   key={relatedProduct.id}
                   product={relatedProduct}
-                  onAddToCart={(product) => {
-                    const existingCart = JSON.parse(localStorage.getItem('cart') || '[]');
-                    const existingItemIndex = existingCart.findIndex((item: any) => item.id === product.id);
-                    
-                    if (existingItemIndex > -1) {
-                      existingCart[existingItemIndex].quantity += 1;
-                    } else {
-                      existingCart.push({ ...product, quantity: 1 });
-                    }
-                    
-                    localStorage.setItem('cart', JSON.stringify(existingCart));
-                    
-                    toast({
-                      title: "Added to cart",
-                      description: `${product.name} has been added to your cart.`,
-                    });
-                  }}
+                  onAddToCart={(product) => addItem(product)}
                 />
               ))}
             </div>
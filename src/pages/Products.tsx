@@ -8,6 +8,9 @@ import { Search, Filter, Grid, List } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import ProductCard from "@/components/ProductCard";
+import { useCart } from "@/hooks/use-cart";
+import { useCategories } from "@/hooks/use-categories";
+import { getCategoryPath, getCategoryTreeIds, getChildCategories } from "@/lib/categories";
 
 interface Product {
   id: string;
@@ -16,6 +19,7 @@ interface Product {
   image: string;
   stock: number;
   category: string;
+  category_id: string | null;
   description: string;
 }
 
@@ -28,8 +32,16 @@ export default function Products() {
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [searchParams] = useSearchParams();
   const { toast } = useToast();
+  const { addItem } = useCart();
+  const { categories } = useCategories();
 
-  const categories = ["All", "Electronics", "Clothing", "Groceries"];
+  // Categories are selected by slug so the filter can come from the URL
+  const selectedCategoryRecord = categories.find(
+    category => category.slug === selectedCategory || category.name === selectedCategory
+  );
+  const selectedPath = selectedCategoryRecord ? getCategoryPath(categories, selectedCategoryRecord.id) : [];
+  const topLevelCategories = getChildCategories(categories, null);
+  const subcategories = selectedPath.length > 0 ? getChildCategories(categories, selectedPath[0].id) : [];
 
   useEffect(() => {
     fetchProducts();
@@ -71,7 +83,7 @@ export default function Products() {
 
   useEffect(() => {
     filterProducts();
-  }, [products, searchQuery, selectedCategory]);
+  }, [products, searchQuery, selectedCategory, categories]);
 
   const fetchProducts = async () => {
     try {
@@ -99,9 +111,12 @@ export default function Products() {
   const filterProducts = () => {
     let filtered = products;
 
-    // Filter by category
+    // Filter by category, including its subcategories
     if (selectedCategory !== "All") {
-      filtered = filtered.filter(product => product.category === selectedCategory);
+      const categoryIds = selectedCategoryRecord
+        ? getCategoryTreeIds(categories, selectedCategoryRecord.id)
+        : [];
+      filtered = filtered.filter(product => categoryIds.includes(product.category_id));
     }
 
     // Filter by search query
@@ -121,27 +136,7 @@ export default function Products() {
   };
 
   const handleAddToCart = (product: Product) => {
-    // Get existing cart from localStorage
-    const existingCart = JSON.parse(localStorage.getItem('cart') || '[]');
-    
-    // Check if product already exists in cart
-    const existingItemIndex = existingCart.findIndex((item: any) => item.id === product.id);
-    
-    if (existingItemIndex > -1) {
-      // Update quantity
-      existingCart[existingItemIndex].quantity += 1;
-    } else {
-      // Add new item
-      existingCart.push({ ...product, quantity: 1 });
-    }
-    
-    // Save back to localStorage
-    localStorage.setItem('cart', JSON.stringify(existingCart));
-    
-    toast({
-      title: "Added to cart",
-      description: `${product.name} has been added to your cart.`,
-    });
+    addItem(product);
   };
 
   return (
@@ -178,19 +173,46 @@ export default function Products() {
 
           {/* Category Filters and View Toggle */}
           <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
-            <div className="flex flex-wrap gap-2">
-              {categories.map((category) => (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
                 <Button
-                  key={category}
-                  variant={selectedCategory === category ? "default" : "outline"}
+                  variant={selectedCategory === "All" ? "default" : "outline"}
                   size="sm"
-                  onClick={() => setSelectedCategory(category)}
+                  onClick={() => setSelectedCategory("All")}
                   className="flex items-center gap-2"
                 >
                   <Filter className="h-4 w-4" />
-                  {category}
+                  All
                 </Button>
-              ))}
+                {topLevelCategories.map((category) => (
+                  <Button
+                    key={category.id}
+                    variant={selectedPath[0]?.id === category.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setSelectedCategory(category.slug)}
+                    className="flex items-center gap-2"
+                  >
+                    <Filter className="h-4 w-4" />
+                    {category.name}
+                  </Button>
+                ))}
+              </div>
+
+              {/* Subcategories of the selected top-level category */}
+              {subcategories.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {subcategories.map((category) => (
+                    <Button
+                      key={category.id}
+                      variant={selectedPath.some(c => c.id === category.id) ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setSelectedCategory(category.slug)}
+                    >
+                      {category.name}
+                    </Button>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div className="flex items-center gap-2">
@@ -5,9 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { User, Mail, Calendar, Shield, Package } from "lucide-react";
+import { User, Mail, Calendar, Shield, Package, Receipt } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import AddressBook from "@/components/AddressBook";
 import type { User as SupabaseUser } from "@supabase/supabase-js";
 
 interface Profile {
@@ -204,6 +205,8 @@ export default function Profile() {
             </CardContent>
           </Card>
 
+          <AddressBook userId={user.id} email={user.email} />
+
           {/* Quick Actions */}
           <Card>
             <CardHeader>
@@ -221,6 +224,15 @@ export default function Profile() {
                 </Button>
               )}
               
+              <Button
+                onClick={() => navigate("/orders")}
+                className="w-full"
+                variant="outline"
+              >
+                <Receipt className="mr-2 h-4 w-4" />
+                View Order History
+              </Button>
+              
               <Button
                 onClick={() => navigate("/cart")}
                 className="w-full"
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,7 +11,9 @@ import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 
 export default function Signup() {
-  const [email, setEmail] = useState("");
+  const [searchParams] = useSearchParams();
+  // Guest order pages link here with the email the order was placed with
+  const [email, setEmail] = useState(searchParams.get("email") ?? "");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -92,7 +94,8 @@ export default function Signup() {
 
       toast({
         title: "Account created successfully!",
-        description: "Please check your email to verify your account.",
+        description:
+          "Please check your email to verify your account. Any orders you placed as a guest with this email will be added to it.",
       });
 
       navigate("/login");
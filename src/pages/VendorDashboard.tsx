@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, Fragment } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -6,10 +6,29 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Edit, Save, X, Package, TrendingUp, DollarSign, ShoppingCart } from "lucide-react";
+import { Edit, Save, X, Package, TrendingUp, DollarSign, ShoppingCart, Plus, Pencil, Trash2, ChevronDown, ChevronRight } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import ProductEditor from "@/components/ProductEditor";
+import { getProductImageUrl } from "@/lib/product-images";
+import {
+  VARIANT_SELECT,
+  getVariantLabel,
+  sortOptions,
+  type ProductOption,
+  type ProductVariant,
+} from "@/lib/variants";
 import type { User } from "@supabase/supabase-js";
 
 interface Product {
@@ -18,8 +37,13 @@ interface Product {
   price: number;
   image: string;
   stock: number;
+  weight: number;
   category: string;
+  category_id: string | null;
   description: string;
+  has_variants: boolean;
+  product_options: ProductOption[];
+  product_variants: ProductVariant[];
 }
 
 interface Profile {
@@ -32,7 +56,11 @@ export default function VendorDashboard() {
   const [products, setProducts] = useState<Product[]>([]);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingStock, setEditingStock] = useState<number>(0);
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [deletingProduct, setDeletingProduct] = useState<Product | null>(null);
   const [stats, setStats] = useState({
     totalProducts: 0,
     lowStock: 0,
@@ -60,22 +88,23 @@ export default function VendorDashboard() {
   }, [navigate]);
 
   useEffect(() => {
-    if (profile?.role === "vendor") {
-      fetchProducts();
+    if (user && profile?.role === "vendor") {
+      fetchProducts(user.id);
       
-      // Set up real-time subscription for product updates
+      // Set up real-time subscription for this vendor's product updates
       const channel = supabase
-        .channel('vendor-products-changes')
+        .channel(`vendor-products-changes-${user.id}`)
         .on(
           'postgres_changes',
           {
             event: '*',
             schema: 'public',
-            table: 'products'
+            table: 'products',
+            filter: `vendor_id=eq.${user.id}`
           },
           (payload) => {
             console.log('Product change received:', payload);
-            fetchProducts(); // Refresh products on any change
+            fetchProducts(user.id); // Refresh products on any change
           }
         )
         .subscribe();
@@ -84,7 +113,7 @@ export default function VendorDashboard() {
         supabase.removeChannel(channel);
       };
     }
-  }, [profile]);
+  }, [user, profile]);
 
   const fetchProfile = async (userId: string) => {
     try {
@@ -113,24 +142,26 @@ export default function VendorDashboard() {
     }
   };
 
-  const fetchProducts = async () => {
+  const fetchProducts = async (vendorId: string) => {
     try {
       setIsLoading(true);
       const { data, error } = await supabase
         .from('products')
-        .select('*')
-        .order('name');
+        .select(`*, ${VARIANT_SELECT}`)
+        .eq('vendor_id', vendorId)
+        .order('name')
+        .order('sku', { referencedTable: 'product_variants' });
 
       if (error) throw error;
 
-      const products = data || [];
+      const products = (data || []).map(p => ({ ...p, product_options: sortOptions(p.product_options) }));
       setProducts(products);
       
       // Calculate stats
       const totalProducts = products.length;
       const lowStock = products.filter(p => p.stock > 0 && p.stock <= 10).length;
       const outOfStock = products.filter(p => p.stock === 0).length;
-      const totalValue = products.reduce((sum, p) => sum + (p.price * p.stock), 0);
+      const totalValue = products.reduce((sum, p) => sum + getInventoryValue(p), 0);
       
       setStats({
         totalProducts,
@@ -150,9 +181,23 @@ export default function VendorDashboard() {
     }
   };
 
-  const handleEditStock = (product: Product) => {
-    setEditingId(product.id);
-    setEditingStock(product.stock);
+  const getInventoryValue = (product: Product) => {
+    if (!product.has_variants) return product.price * product.stock;
+    return product.product_variants.reduce(
+      (sum, variant) => sum + (variant.price ?? product.price) * variant.stock,
+      0
+    );
+  };
+
+  const toggleExpanded = (productId: string) => {
+    setExpandedIds(prev =>
+      prev.includes(productId) ? prev.filter(id => id !== productId) : [...prev, productId]
+    );
+  };
+
+  const handleEditStock = (id: string, stock: number) => {
+    setEditingId(id);
+    setEditingStock(stock);
   };
 
   const handleSaveStock = async (productId: string) => {
@@ -160,7 +205,8 @@ export default function VendorDashboard() {
       const { error } = await supabase
         .from('products')
         .update({ stock: editingStock })
-        .eq('id', productId);
+        .eq('id', productId)
+        .eq('vendor_id', user.id);
 
       if (error) throw error;
 
@@ -170,7 +216,7 @@ export default function VendorDashboard() {
       });
 
       setEditingId(null);
-      fetchProducts(); // Refresh to show updated data
+      fetchProducts(user.id); // Refresh to show updated data
     } catch (error) {
       console.error('Error updating stock:', error);
       toast({
@@ -181,17 +227,112 @@ export default function VendorDashboard() {
     }
   };
 
+  const handleSaveVariantStock = async (variantId: string) => {
+    try {
+      const { error } = await supabase
+        .from('product_variants')
+        .update({ stock: editingStock })
+        .eq('id', variantId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Stock updated",
+        description: "Variant stock has been updated successfully.",
+      });
+
+      setEditingId(null);
+      fetchProducts(user.id); // Refresh to show updated data
+    } catch (error) {
+      console.error('Error updating variant stock:', error);
+      toast({
+        title: "Update failed",
+        description: "Failed to update stock. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleCancelEdit = () => {
     setEditingId(null);
     setEditingStock(0);
   };
 
+  const handleNewProduct = () => {
+    setEditingProduct(null);
+    setIsEditorOpen(true);
+  };
+
+  const handleEditProduct = (product: Product) => {
+    setEditingProduct(product);
+    setIsEditorOpen(true);
+  };
+
+  const handleDeleteProduct = async () => {
+    if (!deletingProduct) return;
+
+    try {
+      const { error } = await supabase
+        .from('products')
+        .delete()
+        .eq('id', deletingProduct.id)
+        .eq('vendor_id', user.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Product deleted",
+        description: `${deletingProduct.name} has been removed from your catalog.`,
+      });
+
+      fetchProducts(user.id);
+    } catch (error) {
+      console.error('Error deleting product:', error);
+      toast({
+        title: "Delete failed",
+        description: "Failed to delete the product. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingProduct(null);
+    }
+  };
+
   const getStockStatus = (stock: number) => {
     if (stock === 0) return { text: "Out of Stock", class: "badge-danger" };
     if (stock <= 10) return { text: "Low Stock", class: "badge-warning" };
     return { text: "In Stock", class: "badge-success" };
   };
 
+  const renderStockCell = (id: string, stock: number, onSave: (id: string) => void) => (
+    editingId === id ? (
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          value={editingStock}
+          onChange={(e) => setEditingStock(Number(e.target.value))}
+          className="w-20"
+          min="0"
+        />
+        <Button
+          size="sm"
+          onClick={() => onSave(id)}
+        >
+          <Save className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleCancelEdit}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    ) : (
+      <span>{stock}</span>
+    )
+  );
+
   if (isLoading) {
     return (
       <div className="min-h-screen">
@@ -287,11 +428,15 @@ export default function VendorDashboard() {
 
         {/* Products Table */}
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
             <CardTitle className="flex items-center gap-2">
               <ShoppingCart className="h-5 w-5" />
               Product Inventory
             </CardTitle>
+            <Button onClick={handleNewProduct}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Product
+            </Button>
           </CardHeader>
           <CardContent>
             <div className="overflow-x-auto">
@@ -310,76 +455,128 @@ export default function VendorDashboard() {
                 <TableBody>
                   {products.map((product) => {
                     const stockStatus = getStockStatus(product.stock);
+                    const isExpanded = expandedIds.includes(product.id);
                     return (
-                      <TableRow key={product.id}>
-                        <TableCell>
-                          <div className="flex items-center gap-3">
-                            <img
-                              src={product.image || `https://placehold.co/40x40/f3f4f6/6b7280?text=${encodeURIComponent(product.name)}`}
-                              alt={product.name}
-                              className="w-10 h-10 object-cover rounded-md"
-                            />
-                            <div>
-                              <p className="font-medium">{product.name}</p>
-                              <p className="text-sm text-muted-foreground line-clamp-1">
-                                {product.description}
-                              </p>
-                            </div>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <Badge variant="outline">{product.category}</Badge>
-                        </TableCell>
-                        <TableCell>${product.price.toFixed(2)}</TableCell>
-                        <TableCell>
-                          {editingId === product.id ? (
-                            <div className="flex items-center gap-2">
-                              <Input
-                                type="number"
-                                value={editingStock}
-                                onChange={(e) => setEditingStock(Number(e.target.value))}
-                                className="w-20"
-                                min="0"
+                      <Fragment key={product.id}>
+                        <TableRow>
+                          <TableCell>
+                            <div className="flex items-center gap-3">
+                              {product.has_variants ? (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="h-8 w-8 p-0"
+                                  onClick={() => toggleExpanded(product.id)}
+                                >
+                                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                </Button>
+                              ) : (
+                                <div className="w-8" />
+                              )}
+                              <img
+                                src={getProductImageUrl(product.image, "dashboard")}
+                                alt={product.name}
+                                className="w-10 h-10 object-cover rounded-md"
                               />
-                              <Button
-                                size="sm"
-                                onClick={() => handleSaveStock(product.id)}
-                              >
-                                <Save className="h-4 w-4" />
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={handleCancelEdit}
-                              >
-                                <X className="h-4 w-4" />
-                              </Button>
+                              <div>
+                                <p className="font-medium">{product.name}</p>
+                                <p className="text-sm text-muted-foreground line-clamp-1">
+                                  {product.has_variants
+                                    ? `${product.product_variants.length} variants`
+                                    : product.description}
+                                </p>
+                              </div>
                             </div>
-                          ) : (
-                            <span>{product.stock}</span>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          <Badge className={stockStatus.class}>
-                            {stockStatus.text}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          ${(product.price * product.stock).toFixed(2)}
-                        </TableCell>
-                        <TableCell>
-                          {editingId !== product.id && (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => handleEditStock(product)}
-                            >
-                              <Edit className="h-4 w-4 mr-1" />
-                              Edit Stock
-                            </Button>
-                          )}
-                        </TableCell>
-                      </TableRow>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{product.category}</Badge>
+                          </TableCell>
+                          <TableCell>${product.price.toFixed(2)}</TableCell>
+                          <TableCell>
+                            {renderStockCell(product.id, product.stock, handleSaveStock)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={stockStatus.class}>
+                              {stockStatus.text}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            ${getInventoryValue(product).toFixed(2)}
+                          </TableCell>
+                          <TableCell>
+                            {editingId !== product.id && (
+                              <div className="flex items-center gap-2">
+                                {!product.has_variants && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleEditStock(product.id, product.stock)}
+                                  >
+                                    <Edit className="h-4 w-4 mr-1" />
+                                    Edit Stock
+                                  </Button>
+                                )}
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleEditProduct(product)}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setDeletingProduct(product)}
+                                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+
+                        {/* Variant Rows */}
+                        {isExpanded && product.product_variants.map((variant) => {
+                          const variantPrice = variant.price ?? product.price;
+                          const variantStatus = getStockStatus(variant.stock);
+                          return (
+                            <TableRow key={variant.id} className="bg-muted/30">
+                              <TableCell>
+                                <div className="pl-11">
+                                  <p className="font-medium">{getVariantLabel(product.product_options, variant)}</p>
+                                  <p className="text-sm text-muted-foreground font-mono">{variant.sku}</p>
+                                </div>
+                              </TableCell>
+                              <TableCell />
+                              <TableCell>${variantPrice.toFixed(2)}</TableCell>
+                              <TableCell>
+                                {renderStockCell(variant.id, variant.stock, handleSaveVariantStock)}
+                              </TableCell>
+                              <TableCell>
+                                <Badge className={variantStatus.class}>
+                                  {variantStatus.text}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>
+                                ${(variantPrice * variant.stock).toFixed(2)}
+                              </TableCell>
+                              <TableCell>
+                                {editingId !== variant.id && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleEditStock(variant.id, variant.stock)}
+                                  >
+                                    <Edit className="h-4 w-4 mr-1" />
+                                    Edit Stock
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </Fragment>
                     );
                   })}
                 </TableBody>
@@ -388,11 +585,42 @@ export default function VendorDashboard() {
 
             {products.length === 0 && (
               <div className="text-center py-8">
-                <p className="text-muted-foreground">No products found.</p>
+                <p className="text-muted-foreground">You don't have any products yet.</p>
               </div>
             )}
           </CardContent>
         </Card>
+
+        <ProductEditor
+          open={isEditorOpen}
+          onOpenChange={setIsEditorOpen}
+          product={editingProduct}
+          vendorId={user.id}
+          onSaved={() => fetchProducts(user.id)}
+        />
+
+        <AlertDialog
+          open={deletingProduct !== null}
+          onOpenChange={(open) => !open && setDeletingProduct(null)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete product?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {deletingProduct?.name} will be permanently removed from your catalog. This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDeleteProduct}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </main>
 
       <Footer />
@@ -0,0 +1,43 @@
+-- Baseline schema for the storefront: user profiles, the product catalog and
+-- customer orders.
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text,
+  role text not null default 'customer' check (role in ('customer', 'vendor')),
+  created_at timestamptz default now()
+);
+
+create table if not exists public.products (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  price numeric(10, 2) not null check (price >= 0),
+  image text,
+  stock integer not null default 0 check (stock >= 0),
+  category text
+);
+
+create table if not exists public.orders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  products jsonb not null,
+  total numeric(10, 2) not null,
+  status text default 'pending',
+  created_at timestamptz default now()
+);
+
+create index if not exists orders_user_id_idx on public.orders (user_id);
+create index if not exists products_category_idx on public.products (category);
+
+-- The storefront and vendor dashboard subscribe to product changes
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'products'
+  ) then
+    alter publication supabase_realtime add table public.products;
+  end if;
+end;
+$$;
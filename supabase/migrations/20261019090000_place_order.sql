@@ -0,0 +1,83 @@
+-- Places an order in a single transaction: locks the requested product rows,
+-- validates and decrements their stock, then inserts the order. When any line
+-- cannot be fulfilled nothing is written and the shortfalls are returned so
+-- the client can report them line by line.
+create or replace function public.place_order(items jsonb, total numeric)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lines jsonb;
+  v_shortfalls jsonb;
+  v_order_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required' using errcode = '28000';
+  end if;
+
+  if items is null or jsonb_typeof(items) <> 'array' or jsonb_array_length(items) = 0 then
+    raise exception 'Order must contain at least one item' using errcode = '22023';
+  end if;
+
+  -- Collapse duplicate product ids so each product is checked once
+  select jsonb_agg(jsonb_build_object('id', line.id, 'quantity', line.quantity))
+  into v_lines
+  from (
+    select (e->>'id')::uuid as id, sum((e->>'quantity')::int) as quantity
+    from jsonb_array_elements(items) as e
+    group by 1
+  ) as line;
+
+  if exists (
+    select 1 from jsonb_to_recordset(v_lines) as r(id uuid, quantity int)
+    where r.quantity is null or r.quantity < 1
+  ) then
+    raise exception 'Item quantities must be at least 1' using errcode = '22023';
+  end if;
+
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  perform 1
+  from products p
+  where p.id in (select r.id from jsonb_to_recordset(v_lines) as r(id uuid, quantity int))
+  order by p.id
+  for update;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'product_id', r.id,
+        'name', p.name,
+        'requested', r.quantity,
+        'available', coalesce(p.stock, 0)
+      )
+      order by r.id
+    ),
+    '[]'::jsonb
+  )
+  into v_shortfalls
+  from jsonb_to_recordset(v_lines) as r(id uuid, quantity int)
+  left join products p on p.id = r.id
+  where p.id is null or p.stock < r.quantity;
+
+  if jsonb_array_length(v_shortfalls) > 0 then
+    return jsonb_build_object('order_id', null, 'shortfalls', v_shortfalls);
+  end if;
+
+  update products p
+  set stock = p.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, quantity int)
+  where p.id = r.id;
+
+  insert into orders (user_id, products, total, status)
+  values (v_user_id, items, total, 'pending')
+  returning id into v_order_id;
+
+  return jsonb_build_object('order_id', v_order_id, 'shortfalls', '[]'::jsonb);
+end;
+$$;
+
+revoke execute on function public.place_order(jsonb, numeric) from public, anon;
+grant execute on function public.place_order(jsonb, numeric) to authenticated;
@@ -0,0 +1,5 @@
+-- Home sorts products by newest first, which needs a creation timestamp.
+alter table public.products
+  add column if not exists created_at timestamptz not null default now();
+
+create index if not exists products_created_at_idx on public.products (created_at desc);
@@ -0,0 +1,26 @@
+-- Every auth user gets a profile row; new accounts start as customers.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email)
+  values (new.id, new.email)
+  on conflict (id) do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Backfill profiles for users created before the trigger existed
+insert into public.profiles (id, email)
+select u.id, u.email
+from auth.users u
+on conflict (id) do nothing;
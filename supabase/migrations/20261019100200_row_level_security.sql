@@ -0,0 +1,61 @@
+-- Row-level security for the public tables. Orders are only created through
+-- place_order (security definer), so clients get no direct write access.
+
+create or replace function public.is_vendor()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles
+    where id = auth.uid() and role = 'vendor'
+  );
+$$;
+
+grant execute on function public.is_vendor() to authenticated;
+
+alter table public.profiles enable row level security;
+alter table public.products enable row level security;
+alter table public.orders enable row level security;
+
+-- Profiles: users read their own row. Roles are managed server-side only.
+drop policy if exists "Users can view their own profile" on public.profiles;
+create policy "Users can view their own profile"
+  on public.profiles for select
+  to authenticated
+  using (id = auth.uid());
+
+-- Products: the catalog is public, only vendors may change it.
+drop policy if exists "Anyone can view products" on public.products;
+create policy "Anyone can view products"
+  on public.products for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Vendors can insert products" on public.products;
+create policy "Vendors can insert products"
+  on public.products for insert
+  to authenticated
+  with check (public.is_vendor());
+
+drop policy if exists "Vendors can update products" on public.products;
+create policy "Vendors can update products"
+  on public.products for update
+  to authenticated
+  using (public.is_vendor())
+  with check (public.is_vendor());
+
+drop policy if exists "Vendors can delete products" on public.products;
+create policy "Vendors can delete products"
+  on public.products for delete
+  to authenticated
+  using (public.is_vendor());
+
+-- Orders: customers read only their own orders.
+drop policy if exists "Customers can view their own orders" on public.orders;
+create policy "Customers can view their own orders"
+  on public.orders for select
+  to authenticated
+  using (user_id = auth.uid());
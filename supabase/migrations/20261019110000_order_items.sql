@@ -0,0 +1,128 @@
+-- Order line items as rows instead of a JSON snapshot of the cart. Each line
+-- keeps the unit price and product name at the time of purchase so later
+-- catalog changes do not rewrite past orders.
+
+create table if not exists public.order_items (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  product_id uuid references public.products (id) on delete set null,
+  product_name text not null,
+  quantity integer not null check (quantity > 0),
+  unit_price numeric(10, 2) not null check (unit_price >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_items_order_id_idx on public.order_items (order_id);
+create index if not exists order_items_product_id_idx on public.order_items (product_id);
+
+alter table public.order_items enable row level security;
+
+drop policy if exists "Customers can view their own order items" on public.order_items;
+create policy "Customers can view their own order items"
+  on public.order_items for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.orders o
+      where o.id = order_items.order_id and o.user_id = auth.uid()
+    )
+  );
+
+-- Backfill from the JSON cart snapshots stored on existing orders
+insert into public.order_items (order_id, product_id, product_name, quantity, unit_price, created_at)
+select
+  o.id,
+  p.id,
+  coalesce(e->>'name', p.name, 'Unknown product'),
+  greatest(coalesce((e->>'quantity')::int, 1), 1),
+  coalesce((e->>'price')::numeric, p.price, 0),
+  coalesce(o.created_at, now())
+from public.orders o
+cross join lateral jsonb_array_elements(
+  case when jsonb_typeof(o.products) = 'array' then o.products else '[]'::jsonb end
+) as e
+left join public.products p on p.id::text = e->>'id';
+
+alter table public.orders drop column if exists products;
+
+create or replace function public.place_order(items jsonb, total numeric)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lines jsonb;
+  v_shortfalls jsonb;
+  v_order_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required' using errcode = '28000';
+  end if;
+
+  if items is null or jsonb_typeof(items) <> 'array' or jsonb_array_length(items) = 0 then
+    raise exception 'Order must contain at least one item' using errcode = '22023';
+  end if;
+
+  -- Collapse duplicate product ids so each product is checked once
+  select jsonb_agg(jsonb_build_object('id', line.id, 'quantity', line.quantity))
+  into v_lines
+  from (
+    select (e->>'id')::uuid as id, sum((e->>'quantity')::int) as quantity
+    from jsonb_array_elements(items) as e
+    group by 1
+  ) as line;
+
+  if exists (
+    select 1 from jsonb_to_recordset(v_lines) as r(id uuid, quantity int)
+    where r.quantity is null or r.quantity < 1
+  ) then
+    raise exception 'Item quantities must be at least 1' using errcode = '22023';
+  end if;
+
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  perform 1
+  from products p
+  where p.id in (select r.id from jsonb_to_recordset(v_lines) as r(id uuid, quantity int))
+  order by p.id
+  for update;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'product_id', r.id,
+        'name', p.name,
+        'requested', r.quantity,
+        'available', coalesce(p.stock, 0)
+      )
+      order by r.id
+    ),
+    '[]'::jsonb
+  )
+  into v_shortfalls
+  from jsonb_to_recordset(v_lines) as r(id uuid, quantity int)
+  left join products p on p.id = r.id
+  where p.id is null or p.stock < r.quantity;
+
+  if jsonb_array_length(v_shortfalls) > 0 then
+    return jsonb_build_object('order_id', null, 'shortfalls', v_shortfalls);
+  end if;
+
+  update products p
+  set stock = p.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, quantity int)
+  where p.id = r.id;
+
+  insert into orders (user_id, total, status)
+  values (v_user_id, total, 'pending')
+  returning id into v_order_id;
+
+  insert into order_items (order_id, product_id, product_name, quantity, unit_price)
+  select v_order_id, p.id, p.name, r.quantity, p.price
+  from jsonb_to_recordset(v_lines) as r(id uuid, quantity int)
+  join products p on p.id = r.id;
+
+  return jsonb_build_object('order_id', v_order_id, 'shortfalls', '[]'::jsonb);
+end;
+$$;
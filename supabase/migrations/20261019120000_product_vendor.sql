@@ -0,0 +1,32 @@
+-- Products belong to the vendor that manages them. Vendors can only change
+-- their own catalog; the storefront still reads every product.
+
+alter table public.products
+  add column if not exists vendor_id uuid references public.profiles (id) on delete set null default auth.uid();
+
+create index if not exists products_vendor_id_idx on public.products (vendor_id);
+
+-- Hand existing products to the vendor when there is exactly one
+update public.products
+set vendor_id = (select id from public.profiles where role = 'vendor')
+where vendor_id is null
+  and (select count(*) from public.profiles where role = 'vendor') = 1;
+
+drop policy if exists "Vendors can insert products" on public.products;
+create policy "Vendors can insert their own products"
+  on public.products for insert
+  to authenticated
+  with check (public.is_vendor() and vendor_id = auth.uid());
+
+drop policy if exists "Vendors can update products" on public.products;
+create policy "Vendors can update their own products"
+  on public.products for update
+  to authenticated
+  using (public.is_vendor() and vendor_id = auth.uid())
+  with check (public.is_vendor() and vendor_id = auth.uid());
+
+drop policy if exists "Vendors can delete products" on public.products;
+create policy "Vendors can delete their own products"
+  on public.products for delete
+  to authenticated
+  using (public.is_vendor() and vendor_id = auth.uid());
@@ -0,0 +1,47 @@
+-- Public Storage bucket for product images. Vendors upload into a folder named
+-- after their user id; the client stores the original plus resized variants
+-- next to it (see src/lib/product-images.ts).
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'product-images',
+  'product-images',
+  true,
+  5242880,
+  array['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+on conflict (id) do nothing;
+
+drop policy if exists "Anyone can view product images" on storage.objects;
+create policy "Anyone can view product images"
+  on storage.objects for select
+  to anon, authenticated
+  using (bucket_id = 'product-images');
+
+drop policy if exists "Vendors can upload product images" on storage.objects;
+create policy "Vendors can upload product images"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'product-images'
+    and public.is_vendor()
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+drop policy if exists "Vendors can update their product images" on storage.objects;
+create policy "Vendors can update their product images"
+  on storage.objects for update
+  to authenticated
+  using (
+    bucket_id = 'product-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+drop policy if exists "Vendors can delete their product images" on storage.objects;
+create policy "Vendors can delete their product images"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'product-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,73 @@
+-- Ordered image galleries for products. products.image stays as the cover
+-- image used by cards, the cart and the dashboard, and is kept in sync with
+-- the first image of the gallery.
+
+create table if not exists public.product_images (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  url text not null,
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists product_images_product_id_position_idx
+  on public.product_images (product_id, position);
+
+alter table public.product_images enable row level security;
+
+drop policy if exists "Anyone can view product images" on public.product_images;
+create policy "Anyone can view product images"
+  on public.product_images for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Vendors can manage their product images" on public.product_images;
+create policy "Vendors can manage their product images"
+  on public.product_images for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.products p
+      where p.id = product_images.product_id and p.vendor_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.products p
+      where p.id = product_images.product_id and p.vendor_id = auth.uid()
+    )
+  );
+
+create or replace function public.sync_product_cover_image()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product_id uuid := coalesce(new.product_id, old.product_id);
+begin
+  update products
+  set image = (
+    select pi.url from product_images pi
+    where pi.product_id = v_product_id
+    order by pi.position, pi.created_at
+    limit 1
+  )
+  where id = v_product_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists sync_product_cover_image on public.product_images;
+create trigger sync_product_cover_image
+  after insert or update or delete on public.product_images
+  for each row execute function public.sync_product_cover_image();
+
+-- Seed each gallery with the existing cover image
+insert into public.product_images (product_id, url, position)
+select p.id, p.image, 0
+from public.products p
+where p.image is not null and p.image <> ''
+  and not exists (select 1 from public.product_images pi where pi.product_id = p.id);
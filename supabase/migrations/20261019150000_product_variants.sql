@@ -0,0 +1,295 @@
+-- Product variants. A product defines option types (e.g. Size, Color) with
+-- their values; each variant picks one value per option and carries its own
+-- SKU, optional price override and stock. For products with variants,
+-- products.stock is the sum of variant stock so listings keep working.
+
+alter table public.products
+  add column if not exists has_variants boolean not null default false;
+
+create table if not exists public.product_options (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  name text not null,
+  position integer not null default 0,
+  unique (product_id, name)
+);
+
+create table if not exists public.product_option_values (
+  id uuid primary key default gen_random_uuid(),
+  option_id uuid not null references public.product_options (id) on delete cascade,
+  value text not null,
+  position integer not null default 0,
+  unique (option_id, value)
+);
+
+create table if not exists public.product_variants (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  sku text not null unique,
+  price numeric(10, 2) check (price >= 0),
+  stock integer not null default 0 check (stock >= 0),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.product_variant_values (
+  variant_id uuid not null references public.product_variants (id) on delete cascade,
+  option_value_id uuid not null references public.product_option_values (id) on delete cascade,
+  primary key (variant_id, option_value_id)
+);
+
+create index if not exists product_options_product_id_idx on public.product_options (product_id);
+create index if not exists product_option_values_option_id_idx on public.product_option_values (option_id);
+create index if not exists product_variants_product_id_idx on public.product_variants (product_id);
+
+alter table public.product_options enable row level security;
+alter table public.product_option_values enable row level security;
+alter table public.product_variants enable row level security;
+alter table public.product_variant_values enable row level security;
+
+create or replace function public.owns_product(p_product_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.products
+    where id = p_product_id and vendor_id = auth.uid()
+  );
+$$;
+
+grant execute on function public.owns_product(uuid) to authenticated;
+
+drop policy if exists "Anyone can view product options" on public.product_options;
+create policy "Anyone can view product options"
+  on public.product_options for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Vendors can manage their product options" on public.product_options;
+create policy "Vendors can manage their product options"
+  on public.product_options for all
+  to authenticated
+  using (public.owns_product(product_id))
+  with check (public.owns_product(product_id));
+
+drop policy if exists "Anyone can view product option values" on public.product_option_values;
+create policy "Anyone can view product option values"
+  on public.product_option_values for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Vendors can manage their product option values" on public.product_option_values;
+create policy "Vendors can manage their product option values"
+  on public.product_option_values for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.product_options o
+      where o.id = product_option_values.option_id and public.owns_product(o.product_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.product_options o
+      where o.id = product_option_values.option_id and public.owns_product(o.product_id)
+    )
+  );
+
+drop policy if exists "Anyone can view product variants" on public.product_variants;
+create policy "Anyone can view product variants"
+  on public.product_variants for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Vendors can manage their product variants" on public.product_variants;
+create policy "Vendors can manage their product variants"
+  on public.product_variants for all
+  to authenticated
+  using (public.owns_product(product_id))
+  with check (public.owns_product(product_id));
+
+drop policy if exists "Anyone can view product variant values" on public.product_variant_values;
+create policy "Anyone can view product variant values"
+  on public.product_variant_values for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Vendors can manage their product variant values" on public.product_variant_values;
+create policy "Vendors can manage their product variant values"
+  on public.product_variant_values for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.product_variants v
+      where v.id = product_variant_values.variant_id and public.owns_product(v.product_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.product_variants v
+      where v.id = product_variant_values.variant_id and public.owns_product(v.product_id)
+    )
+  );
+
+-- Keep products.stock and products.has_variants in step with the variants
+create or replace function public.sync_product_variant_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product_id uuid := coalesce(new.product_id, old.product_id);
+begin
+  update products p
+  set
+    has_variants = exists (select 1 from product_variants v where v.product_id = p.id),
+    stock = case
+      when exists (select 1 from product_variants v where v.product_id = p.id)
+        then (select coalesce(sum(v.stock), 0) from product_variants v where v.product_id = p.id)
+      else p.stock
+    end
+  where p.id = v_product_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists sync_product_variant_stock on public.product_variants;
+create trigger sync_product_variant_stock
+  after insert or update of stock, product_id or delete on public.product_variants
+  for each row execute function public.sync_product_variant_stock();
+
+-- Human readable label such as "M / Red", in option order
+create or replace function public.variant_label(p_variant_id uuid)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select string_agg(ov.value, ' / ' order by o.position, o.name)
+  from product_variant_values vv
+  join product_option_values ov on ov.id = vv.option_value_id
+  join product_options o on o.id = ov.option_id
+  where vv.variant_id = p_variant_id;
+$$;
+
+alter table public.order_items
+  add column if not exists variant_id uuid references public.product_variants (id) on delete set null,
+  add column if not exists variant_name text;
+
+-- Order lines may now reference a variant: items are [{ id, variant_id?, quantity }]
+create or replace function public.place_order(items jsonb, total numeric)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lines jsonb;
+  v_shortfalls jsonb;
+  v_order_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required' using errcode = '28000';
+  end if;
+
+  if items is null or jsonb_typeof(items) <> 'array' or jsonb_array_length(items) = 0 then
+    raise exception 'Order must contain at least one item' using errcode = '22023';
+  end if;
+
+  -- Collapse duplicate lines so each product or variant is checked once
+  select jsonb_agg(jsonb_build_object('id', line.id, 'variant_id', line.variant_id, 'quantity', line.quantity))
+  into v_lines
+  from (
+    select
+      (e->>'id')::uuid as id,
+      nullif(e->>'variant_id', '')::uuid as variant_id,
+      sum((e->>'quantity')::int) as quantity
+    from jsonb_array_elements(items) as e
+    group by 1, 2
+  ) as line;
+
+  if exists (
+    select 1 from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+    where r.quantity is null or r.quantity < 1
+  ) then
+    raise exception 'Item quantities must be at least 1' using errcode = '22023';
+  end if;
+
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  perform 1
+  from products p
+  where p.id in (select r.id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by p.id
+  for update;
+
+  perform 1
+  from product_variants v
+  where v.id in (select r.variant_id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by v.id
+  for update;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'product_id', r.id,
+        'variant_id', r.variant_id,
+        'name', p.name,
+        'requested', r.quantity,
+        'available', case
+          when r.variant_id is not null then coalesce(v.stock, 0)
+          when p.has_variants then 0
+          else coalesce(p.stock, 0)
+        end
+      )
+      order by r.id, r.variant_id
+    ),
+    '[]'::jsonb
+  )
+  into v_shortfalls
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  left join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id and v.product_id = r.id
+  where p.id is null
+    or (r.variant_id is null and (p.has_variants or p.stock < r.quantity))
+    or (r.variant_id is not null and (v.id is null or v.stock < r.quantity));
+
+  if jsonb_array_length(v_shortfalls) > 0 then
+    return jsonb_build_object('order_id', null, 'shortfalls', v_shortfalls);
+  end if;
+
+  update products p
+  set stock = p.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where p.id = r.id and r.variant_id is null;
+
+  -- Product stock for variants is re-summed by sync_product_variant_stock
+  update product_variants v
+  set stock = v.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where v.id = r.variant_id;
+
+  insert into orders (user_id, total, status)
+  values (v_user_id, total, 'pending')
+  returning id into v_order_id;
+
+  insert into order_items (order_id, product_id, variant_id, product_name, variant_name, quantity, unit_price)
+  select
+    v_order_id,
+    p.id,
+    v.id,
+    p.name,
+    case when v.id is not null then public.variant_label(v.id) end,
+    r.quantity,
+    coalesce(v.price, p.price)
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id;
+
+  return jsonb_build_object('order_id', v_order_id, 'shortfalls', '[]'::jsonb);
+end;
+$$;
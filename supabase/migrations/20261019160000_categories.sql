@@ -0,0 +1,88 @@
+-- Category tree. Categories nest through parent_id and are addressed by slug
+-- in URLs. products.category_id is the source of truth; products.category is
+-- kept as the denormalized category name for display.
+
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  slug text not null unique check (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  parent_id uuid references public.categories (id) on delete restrict check (parent_id <> id),
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists categories_parent_id_idx on public.categories (parent_id);
+
+alter table public.categories enable row level security;
+
+drop policy if exists "Anyone can view categories" on public.categories;
+create policy "Anyone can view categories"
+  on public.categories for select
+  to anon, authenticated
+  using (true);
+
+insert into public.categories (name, slug, position)
+values
+  ('Electronics', 'electronics', 0),
+  ('Clothing', 'clothing', 1),
+  ('Groceries', 'groceries', 2)
+on conflict (slug) do nothing;
+
+-- Any other category names already used by products become top-level categories
+insert into public.categories (name, slug, position)
+select distinct on (slug) name, slug, 100
+from (
+  select
+    p.category as name,
+    trim(both '-' from regexp_replace(lower(p.category), '[^a-z0-9]+', '-', 'g')) as slug
+  from public.products p
+  where p.category is not null and p.category <> ''
+) as used
+where used.slug <> ''
+order by slug, name
+on conflict (slug) do nothing;
+
+alter table public.products
+  add column if not exists category_id uuid references public.categories (id) on delete set null;
+
+create index if not exists products_category_id_idx on public.products (category_id);
+
+update public.products p
+set category_id = c.id
+from public.categories c
+where p.category_id is null and lower(c.name) = lower(p.category);
+
+create or replace function public.set_product_category_name()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.category := (select c.name from categories c where c.id = new.category_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists set_product_category_name on public.products;
+create trigger set_product_category_name
+  before insert or update of category_id on public.products
+  for each row execute function public.set_product_category_name();
+
+create or replace function public.sync_category_name()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update products set category = new.name where category_id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists sync_category_name on public.categories;
+create trigger sync_category_name
+  after update of name on public.categories
+  for each row
+  when (old.name is distinct from new.name)
+  execute function public.sync_category_name();
@@ -0,0 +1,222 @@
+-- Server-side carts for signed-in customers. Guests keep their cart in
+-- localStorage; on sign-in it is merged into this one with merge_cart().
+-- Clients read the cart through RLS and write it only through the functions
+-- below, which cap every line at the stock available.
+
+create table if not exists public.carts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null unique references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.cart_items (
+  id uuid primary key default gen_random_uuid(),
+  cart_id uuid not null references public.carts (id) on delete cascade,
+  product_id uuid not null references public.products (id) on delete cascade,
+  variant_id uuid references public.product_variants (id) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  created_at timestamptz not null default now(),
+  unique nulls not distinct (cart_id, product_id, variant_id)
+);
+
+create index if not exists cart_items_cart_id_idx on public.cart_items (cart_id);
+
+alter table public.carts enable row level security;
+alter table public.cart_items enable row level security;
+
+drop policy if exists "Users can view their own cart" on public.carts;
+create policy "Users can view their own cart"
+  on public.carts for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users can view their own cart items" on public.cart_items;
+create policy "Users can view their own cart items"
+  on public.cart_items for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.carts c
+      where c.id = cart_id and c.user_id = auth.uid()
+    )
+  );
+
+-- Units of a line that can still be bought: variant stock for variant lines,
+-- product stock otherwise, and nothing for a product that needs a variant.
+create or replace function public.cart_line_stock(p_product_id uuid, p_variant_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    case
+      when p_variant_id is not null then (
+        select v.stock from product_variants v
+        where v.id = p_variant_id and v.product_id = p_product_id
+      )
+      else (
+        select case when p.has_variants then 0 else p.stock end
+        from products p
+        where p.id = p_product_id
+      )
+    end,
+    0
+  );
+$$;
+
+-- The caller's cart lines with current product details, oldest first
+create or replace function public.get_cart()
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', p.id,
+        'variant_id', ci.variant_id,
+        'variant_label', case when ci.variant_id is not null then public.variant_label(ci.variant_id) end,
+        'name', p.name,
+        'price', coalesce(v.price, p.price),
+        'image', p.image,
+        'stock', public.cart_line_stock(ci.product_id, ci.variant_id),
+        'category', p.category,
+        'quantity', ci.quantity
+      )
+      order by ci.created_at, ci.id
+    ),
+    '[]'::jsonb
+  )
+  from carts c
+  join cart_items ci on ci.cart_id = c.id
+  join products p on p.id = ci.product_id
+  left join product_variants v on v.id = ci.variant_id
+  where c.user_id = auth.uid();
+$$;
+
+create or replace function public.ensure_cart()
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_cart_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required' using errcode = '28000';
+  end if;
+
+  insert into carts (user_id)
+  values (v_user_id)
+  on conflict (user_id) do update set updated_at = now()
+  returning id into v_cart_id;
+
+  return v_cart_id;
+end;
+$$;
+
+-- Sets a line to an absolute quantity, capped at stock. Zero removes it.
+create or replace function public.set_cart_item(p_product_id uuid, p_variant_id uuid, p_quantity integer)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cart_id uuid := public.ensure_cart();
+  v_quantity integer := least(greatest(coalesce(p_quantity, 0), 0), public.cart_line_stock(p_product_id, p_variant_id));
+begin
+  if v_quantity = 0 then
+    delete from cart_items
+    where cart_id = v_cart_id
+      and product_id = p_product_id
+      and variant_id is not distinct from p_variant_id;
+  else
+    insert into cart_items (cart_id, product_id, variant_id, quantity)
+    values (v_cart_id, p_product_id, p_variant_id, v_quantity)
+    on conflict (cart_id, product_id, variant_id) do update set quantity = excluded.quantity;
+  end if;
+
+  return public.get_cart();
+end;
+$$;
+
+create or replace function public.clear_cart()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from cart_items
+  where cart_id in (select id from carts where user_id = auth.uid());
+$$;
+
+-- Merges a guest cart ([{id, variant_id?, quantity}]) into the caller's cart.
+-- A line already in the server cart gets the guest quantity added to it; every
+-- merged line is then capped at stock, and lines with nothing left to buy
+-- (deleted products, sold out, or a product missing its variant) are dropped.
+create or replace function public.merge_cart(items jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cart_id uuid := public.ensure_cart();
+begin
+  if items is null or jsonb_typeof(items) <> 'array' then
+    raise exception 'Cart items must be an array' using errcode = '22023';
+  end if;
+
+  with guest as (
+    select
+      (e->>'id')::uuid as product_id,
+      nullif(e->>'variant_id', '')::uuid as variant_id,
+      sum((e->>'quantity')::int) as quantity
+    from jsonb_array_elements(items) as e
+    -- A line without a positive quantity adds nothing, as place_order rejects it
+    where (e->>'quantity')::int >= 1
+    group by 1, 2
+  ),
+  merged as (
+    select
+      g.product_id,
+      g.variant_id,
+      least(
+        g.quantity + coalesce(ci.quantity, 0),
+        public.cart_line_stock(g.product_id, g.variant_id)
+      ) as quantity
+    from guest g
+    join products p on p.id = g.product_id
+    left join cart_items ci
+      on ci.cart_id = v_cart_id
+      and ci.product_id = g.product_id
+      and ci.variant_id is not distinct from g.variant_id
+  )
+  insert into cart_items (cart_id, product_id, variant_id, quantity)
+  select v_cart_id, m.product_id, m.variant_id, m.quantity
+  from merged m
+  where m.quantity > 0
+  on conflict (cart_id, product_id, variant_id) do update set quantity = excluded.quantity;
+
+  return public.get_cart();
+end;
+$$;
+
+revoke execute on function public.cart_line_stock(uuid, uuid) from public, anon;
+revoke execute on function public.get_cart() from public, anon;
+revoke execute on function public.ensure_cart() from public, anon;
+revoke execute on function public.set_cart_item(uuid, uuid, integer) from public, anon;
+revoke execute on function public.clear_cart() from public, anon;
+revoke execute on function public.merge_cart(jsonb) from public, anon;
+grant execute on function public.get_cart() to authenticated;
+grant execute on function public.set_cart_item(uuid, uuid, integer) to authenticated;
+grant execute on function public.clear_cart() to authenticated;
+grant execute on function public.merge_cart(jsonb) to authenticated;
@@ -0,0 +1,11 @@
+-- The cart revalidates its lines when a variant's price or stock changes
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'product_variants'
+  ) then
+    alter publication supabase_realtime add table public.product_variants;
+  end if;
+end;
+$$;
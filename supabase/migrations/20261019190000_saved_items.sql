@@ -0,0 +1,25 @@
+-- Items a signed-in customer moved out of their cart to buy later. Guests
+-- keep the list in localStorage until they sign in. The price and variant
+-- label are snapshotted when the item is saved so the cart page can tell the
+-- customer when the price has changed since.
+
+create table if not exists public.saved_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  product_id uuid not null references public.products (id) on delete cascade,
+  variant_id uuid references public.product_variants (id) on delete cascade,
+  variant_label text,
+  quantity integer not null default 1 check (quantity > 0),
+  price numeric(10, 2) not null,
+  created_at timestamptz not null default now(),
+  unique nulls not distinct (user_id, product_id, variant_id)
+);
+
+alter table public.saved_items enable row level security;
+
+drop policy if exists "Users can manage their saved items" on public.saved_items;
+create policy "Users can manage their saved items"
+  on public.saved_items for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
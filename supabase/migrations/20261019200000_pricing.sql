@@ -0,0 +1,261 @@
+-- Pricing rules for tax and shipping, and a single server-side calculation
+-- of order totals. The storefront previews totals with the same rules
+-- (src/lib/pricing.ts), but place_order() no longer accepts a total from the
+-- client: it prices the order itself.
+
+-- Tax rate by shipping region (the state or province code, upper case).
+-- The '*' row applies to regions without a rate of their own.
+create table if not exists public.tax_rates (
+  region text primary key check (region = upper(region)),
+  rate numeric(6, 4) not null check (rate >= 0 and rate < 1)
+);
+
+-- Shipping by order amount or weight. An amount row sets min_subtotal and a
+-- weight row sets min_weight, in kilograms. Of each kind, the row with the
+-- highest threshold the order reaches applies: the discounted subtotal for
+-- amount rows and the total product weight for weight rows. The order pays
+-- the sum of the two, and nothing when no row matches.
+create table if not exists public.shipping_rates (
+  id uuid primary key default gen_random_uuid(),
+  min_subtotal numeric(10, 2) unique check (min_subtotal >= 0),
+  min_weight numeric(10, 3) unique check (min_weight >= 0),
+  amount numeric(10, 2) not null check (amount >= 0),
+  constraint shipping_rates_threshold_check check ((min_subtotal is null) <> (min_weight is null))
+);
+
+-- Shipping weight of one unit, in kilograms
+alter table public.products
+  add column if not exists weight numeric(10, 3) not null default 0 check (weight >= 0);
+
+alter table public.tax_rates enable row level security;
+alter table public.shipping_rates enable row level security;
+
+drop policy if exists "Anyone can view tax rates" on public.tax_rates;
+create policy "Anyone can view tax rates"
+  on public.tax_rates for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Anyone can view shipping rates" on public.shipping_rates;
+create policy "Anyone can view shipping rates"
+  on public.shipping_rates for select
+  to anon, authenticated
+  using (true);
+
+-- Keep the storefront's existing pricing: 8% tax everywhere, free shipping
+insert into public.tax_rates (region, rate)
+values ('*', 0.08)
+on conflict (region) do nothing;
+
+insert into public.shipping_rates (min_subtotal, amount)
+values (0, 0)
+on conflict (min_subtotal) do nothing;
+
+alter table public.orders
+  add column if not exists subtotal numeric(10, 2) not null default 0,
+  add column if not exists discount numeric(10, 2) not null default 0,
+  add column if not exists shipping numeric(10, 2) not null default 0,
+  add column if not exists tax numeric(10, 2) not null default 0;
+
+-- Existing orders only stored a total, which the client computed. Splitting it
+-- as if it included 8% tax is an approximation: these orders' subtotal and tax
+-- are estimates, and only their total is what was charged.
+update public.orders
+set subtotal = round(total / 1.08, 2),
+    tax = total - round(total / 1.08, 2)
+where subtotal = 0 and total > 0;
+
+-- Prices [{id, variant_id?, quantity}] at current catalog prices. Every
+-- amount is rounded to cents the same way as calculatePricing() in the app.
+create or replace function public.calculate_order_pricing(items jsonb, p_region text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_subtotal numeric;
+  v_discount numeric := 0;
+  v_weight numeric;
+  v_shipping numeric;
+  v_rate numeric;
+  v_tax numeric;
+begin
+  select
+    coalesce(round(sum(coalesce(v.price, p.price) * (e->>'quantity')::int), 2), 0),
+    coalesce(sum(p.weight * (e->>'quantity')::int), 0)
+  into v_subtotal, v_weight
+  from jsonb_array_elements(items) as e
+  join products p on p.id = (e->>'id')::uuid
+  left join product_variants v on v.id = nullif(e->>'variant_id', '')::uuid and v.product_id = p.id;
+
+  select
+    coalesce(
+      (select s.amount from shipping_rates s
+       where s.min_subtotal <= v_subtotal - v_discount
+       order by s.min_subtotal desc
+       limit 1),
+      0
+    ) + coalesce(
+      (select s.amount from shipping_rates s
+       where s.min_weight <= v_weight
+       order by s.min_weight desc
+       limit 1),
+      0
+    )
+  into v_shipping;
+
+  select coalesce(
+    (select t.rate from tax_rates t
+     where t.region in (upper(trim(coalesce(p_region, ''))), '*')
+     order by t.region = '*'
+     limit 1),
+    0
+  )
+  into v_rate;
+
+  v_tax := round((v_subtotal - v_discount) * v_rate, 2);
+
+  return jsonb_build_object(
+    'subtotal', v_subtotal,
+    'discount', v_discount,
+    'shipping', v_shipping,
+    'tax', v_tax,
+    'total', v_subtotal - v_discount + v_shipping + v_tax
+  );
+end;
+$$;
+
+revoke execute on function public.calculate_order_pricing(jsonb, text) from public, anon;
+grant execute on function public.calculate_order_pricing(jsonb, text) to authenticated;
+
+drop function if exists public.place_order(jsonb, numeric);
+
+create or replace function public.place_order(items jsonb, shipping_region text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lines jsonb;
+  v_shortfalls jsonb;
+  v_order_id uuid;
+  v_pricing jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required' using errcode = '28000';
+  end if;
+
+  if items is null or jsonb_typeof(items) <> 'array' or jsonb_array_length(items) = 0 then
+    raise exception 'Order must contain at least one item' using errcode = '22023';
+  end if;
+
+  -- Collapse duplicate lines so each product or variant is checked once
+  select jsonb_agg(jsonb_build_object('id', line.id, 'variant_id', line.variant_id, 'quantity', line.quantity))
+  into v_lines
+  from (
+    select
+      (e->>'id')::uuid as id,
+      nullif(e->>'variant_id', '')::uuid as variant_id,
+      sum((e->>'quantity')::int) as quantity
+    from jsonb_array_elements(items) as e
+    group by 1, 2
+  ) as line;
+
+  if exists (
+    select 1 from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+    where r.quantity is null or r.quantity < 1
+  ) then
+    raise exception 'Item quantities must be at least 1' using errcode = '22023';
+  end if;
+
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  perform 1
+  from products p
+  where p.id in (select r.id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by p.id
+  for update;
+
+  perform 1
+  from product_variants v
+  where v.id in (select r.variant_id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by v.id
+  for update;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'product_id', r.id,
+        'variant_id', r.variant_id,
+        'name', p.name,
+        'requested', r.quantity,
+        'available', case
+          when r.variant_id is not null then coalesce(v.stock, 0)
+          when p.has_variants then 0
+          else coalesce(p.stock, 0)
+        end
+      )
+      order by r.id, r.variant_id
+    ),
+    '[]'::jsonb
+  )
+  into v_shortfalls
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  left join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id and v.product_id = r.id
+  where p.id is null
+    or (r.variant_id is null and (p.has_variants or p.stock < r.quantity))
+    or (r.variant_id is not null and (v.id is null or v.stock < r.quantity));
+
+  if jsonb_array_length(v_shortfalls) > 0 then
+    return jsonb_build_object('order_id', null, 'shortfalls', v_shortfalls);
+  end if;
+
+  update products p
+  set stock = p.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where p.id = r.id and r.variant_id is null;
+
+  -- Product stock for variants is re-summed by sync_product_variant_stock
+  update product_variants v
+  set stock = v.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where v.id = r.variant_id;
+
+  -- Priced from the catalog and the pricing rules, never from the client
+  v_pricing := public.calculate_order_pricing(v_lines, shipping_region);
+
+  insert into orders (user_id, subtotal, discount, shipping, tax, total, status)
+  values (
+    v_user_id,
+    (v_pricing->>'subtotal')::numeric,
+    (v_pricing->>'discount')::numeric,
+    (v_pricing->>'shipping')::numeric,
+    (v_pricing->>'tax')::numeric,
+    (v_pricing->>'total')::numeric,
+    'pending'
+  )
+  returning id into v_order_id;
+
+  insert into order_items (order_id, product_id, variant_id, product_name, variant_name, quantity, unit_price)
+  select
+    v_order_id,
+    p.id,
+    v.id,
+    p.name,
+    case when v.id is not null then public.variant_label(v.id) end,
+    r.quantity,
+    coalesce(v.price, p.price)
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id;
+
+  return jsonb_build_object('order_id', v_order_id, 'shortfalls', '[]'::jsonb, 'pricing', v_pricing);
+end;
+$$;
+
+revoke execute on function public.place_order(jsonb, text) from public, anon;
+grant execute on function public.place_order(jsonb, text) to authenticated;
@@ -0,0 +1,332 @@
+-- Promotion codes. A code takes a percentage or a fixed amount off, or makes
+-- shipping free, optionally only for products in one category (and its
+-- subcategories) and only above a minimum subtotal. Codes can be limited in
+-- total uses and in time. Codes are not readable by clients; check_promotion()
+-- validates one against a cart, and place_order() checks it again, records it
+-- on the order and counts the use in the same transaction.
+
+create table if not exists public.promotions (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique check (code = upper(code) and code ~ '^[A-Z0-9_-]+$'),
+  description text,
+  discount_type text not null check (discount_type in ('percentage', 'fixed', 'free_shipping')),
+  discount_value numeric(10, 2) not null default 0 check (
+    discount_value >= 0 and (discount_type <> 'percentage' or discount_value <= 100)
+  ),
+  category_id uuid references public.categories (id) on delete cascade,
+  min_subtotal numeric(10, 2) not null default 0 check (min_subtotal >= 0),
+  max_uses integer check (max_uses > 0),
+  uses integer not null default 0,
+  starts_at timestamptz not null default now(),
+  expires_at timestamptz,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+alter table public.promotions enable row level security;
+
+alter table public.orders
+  add column if not exists promotion_id uuid references public.promotions (id) on delete set null,
+  add column if not exists promotion_code text;
+
+-- Validates a code against [{id, variant_id?, quantity}] at current catalog
+-- prices. Returns the discount it gives, or an error message for the customer.
+create or replace function public.check_promotion(p_code text, items jsonb)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_promotion promotions%rowtype;
+  v_subtotal numeric;
+  v_eligible numeric;
+  v_discount numeric := 0;
+begin
+  select * into v_promotion
+  from promotions
+  where code = upper(trim(p_code)) and is_active;
+
+  if not found then
+    return jsonb_build_object('error', 'This code is not valid.');
+  elsif v_promotion.starts_at > now() then
+    return jsonb_build_object('error', 'This code is not active yet.');
+  elsif v_promotion.expires_at is not null and v_promotion.expires_at <= now() then
+    return jsonb_build_object('error', 'This code has expired.');
+  elsif v_promotion.max_uses is not null and v_promotion.uses >= v_promotion.max_uses then
+    return jsonb_build_object('error', 'This code has reached its usage limit.');
+  end if;
+
+  with recursive category_tree as (
+    select id from categories where id = v_promotion.category_id
+    union all
+    select c.id from categories c join category_tree t on c.parent_id = t.id
+  ),
+  lines as (
+    select
+      coalesce(v.price, p.price) * (e->>'quantity')::int as amount,
+      v_promotion.category_id is null or p.category_id in (select id from category_tree) as is_eligible
+    from jsonb_array_elements(items) as e
+    join products p on p.id = (e->>'id')::uuid
+    left join product_variants v on v.id = nullif(e->>'variant_id', '')::uuid and v.product_id = p.id
+  )
+  select
+    coalesce(round(sum(amount), 2), 0),
+    coalesce(round(sum(amount) filter (where is_eligible), 2), 0)
+  into v_subtotal, v_eligible
+  from lines;
+
+  if v_subtotal < v_promotion.min_subtotal then
+    return jsonb_build_object(
+      'error', format('Spend at least $%s to use this code.', to_char(v_promotion.min_subtotal, 'FM999999990.00'))
+    );
+  elsif v_eligible = 0 then
+    return jsonb_build_object('error', 'This code doesn''t apply to any items in your cart.');
+  end if;
+
+  if v_promotion.discount_type = 'percentage' then
+    v_discount := round(v_eligible * v_promotion.discount_value / 100, 2);
+  elsif v_promotion.discount_type = 'fixed' then
+    v_discount := least(v_promotion.discount_value, v_eligible);
+  end if;
+
+  return jsonb_build_object(
+    'promotion_id', v_promotion.id,
+    'code', v_promotion.code,
+    'description', v_promotion.description,
+    'discount', v_discount,
+    'free_shipping', v_promotion.discount_type = 'free_shipping',
+    'error', null
+  );
+end;
+$$;
+
+grant execute on function public.check_promotion(text, jsonb) to anon, authenticated;
+
+drop function if exists public.calculate_order_pricing(jsonb, text);
+
+-- p_promotion is a successful check_promotion() result, or null
+create or replace function public.calculate_order_pricing(items jsonb, p_region text, p_promotion jsonb default null)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_subtotal numeric;
+  v_discount numeric := coalesce((p_promotion->>'discount')::numeric, 0);
+  v_weight numeric;
+  v_shipping numeric;
+  v_rate numeric;
+  v_tax numeric;
+begin
+  select
+    coalesce(round(sum(coalesce(v.price, p.price) * (e->>'quantity')::int), 2), 0),
+    coalesce(sum(p.weight * (e->>'quantity')::int), 0)
+  into v_subtotal, v_weight
+  from jsonb_array_elements(items) as e
+  join products p on p.id = (e->>'id')::uuid
+  left join product_variants v on v.id = nullif(e->>'variant_id', '')::uuid and v.product_id = p.id;
+
+  v_discount := least(v_discount, v_subtotal);
+
+  if coalesce((p_promotion->>'free_shipping')::boolean, false) then
+    v_shipping := 0;
+  else
+    select
+      coalesce(
+        (select s.amount from shipping_rates s
+         where s.min_subtotal <= v_subtotal - v_discount
+         order by s.min_subtotal desc
+         limit 1),
+        0
+      ) + coalesce(
+        (select s.amount from shipping_rates s
+         where s.min_weight <= v_weight
+         order by s.min_weight desc
+         limit 1),
+        0
+      )
+    into v_shipping;
+  end if;
+
+  select coalesce(
+    (select t.rate from tax_rates t
+     where t.region in (upper(trim(coalesce(p_region, ''))), '*')
+     order by t.region = '*'
+     limit 1),
+    0
+  )
+  into v_rate;
+
+  v_tax := round((v_subtotal - v_discount) * v_rate, 2);
+
+  return jsonb_build_object(
+    'subtotal', v_subtotal,
+    'discount', v_discount,
+    'shipping', v_shipping,
+    'tax', v_tax,
+    'total', v_subtotal - v_discount + v_shipping + v_tax
+  );
+end;
+$$;
+
+revoke execute on function public.calculate_order_pricing(jsonb, text, jsonb) from public, anon;
+grant execute on function public.calculate_order_pricing(jsonb, text, jsonb) to authenticated;
+
+drop function if exists public.place_order(jsonb, text);
+
+create or replace function public.place_order(items jsonb, shipping_region text, promotion_code text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lines jsonb;
+  v_shortfalls jsonb;
+  v_order_id uuid;
+  v_pricing jsonb;
+  v_promotion jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required' using errcode = '28000';
+  end if;
+
+  if items is null or jsonb_typeof(items) <> 'array' or jsonb_array_length(items) = 0 then
+    raise exception 'Order must contain at least one item' using errcode = '22023';
+  end if;
+
+  -- Collapse duplicate lines so each product or variant is checked once
+  select jsonb_agg(jsonb_build_object('id', line.id, 'variant_id', line.variant_id, 'quantity', line.quantity))
+  into v_lines
+  from (
+    select
+      (e->>'id')::uuid as id,
+      nullif(e->>'variant_id', '')::uuid as variant_id,
+      sum((e->>'quantity')::int) as quantity
+    from jsonb_array_elements(items) as e
+    group by 1, 2
+  ) as line;
+
+  if exists (
+    select 1 from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+    where r.quantity is null or r.quantity < 1
+  ) then
+    raise exception 'Item quantities must be at least 1' using errcode = '22023';
+  end if;
+
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  perform 1
+  from products p
+  where p.id in (select r.id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by p.id
+  for update;
+
+  perform 1
+  from product_variants v
+  where v.id in (select r.variant_id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by v.id
+  for update;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'product_id', r.id,
+        'variant_id', r.variant_id,
+        'name', p.name,
+        'requested', r.quantity,
+        'available', case
+          when r.variant_id is not null then coalesce(v.stock, 0)
+          when p.has_variants then 0
+          else coalesce(p.stock, 0)
+        end
+      )
+      order by r.id, r.variant_id
+    ),
+    '[]'::jsonb
+  )
+  into v_shortfalls
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  left join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id and v.product_id = r.id
+  where p.id is null
+    or (r.variant_id is null and (p.has_variants or p.stock < r.quantity))
+    or (r.variant_id is not null and (v.id is null or v.stock < r.quantity));
+
+  if jsonb_array_length(v_shortfalls) > 0 then
+    return jsonb_build_object('order_id', null, 'shortfalls', v_shortfalls);
+  end if;
+
+  -- The promotion is checked again with its row locked, so a code can't be
+  -- used past its limit by orders placed at the same time. This happens
+  -- before stock is taken, since a rejected code returns without rolling back.
+  if nullif(trim(promotion_code), '') is not null then
+    perform 1 from promotions where code = upper(trim(promotion_code)) for update;
+
+    v_promotion := public.check_promotion(promotion_code, v_lines);
+    if v_promotion->>'error' is not null then
+      return jsonb_build_object(
+        'order_id', null,
+        'shortfalls', '[]'::jsonb,
+        'promotion_error', v_promotion->>'error'
+      );
+    end if;
+  end if;
+
+  update products p
+  set stock = p.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where p.id = r.id and r.variant_id is null;
+
+  -- Product stock for variants is re-summed by sync_product_variant_stock
+  update product_variants v
+  set stock = v.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where v.id = r.variant_id;
+
+  -- Priced from the catalog and the pricing rules, never from the client
+  v_pricing := public.calculate_order_pricing(v_lines, shipping_region, v_promotion);
+
+  insert into orders (user_id, subtotal, discount, shipping, tax, total, promotion_id, promotion_code, status)
+  values (
+    v_user_id,
+    (v_pricing->>'subtotal')::numeric,
+    (v_pricing->>'discount')::numeric,
+    (v_pricing->>'shipping')::numeric,
+    (v_pricing->>'tax')::numeric,
+    (v_pricing->>'total')::numeric,
+    (v_promotion->>'promotion_id')::uuid,
+    v_promotion->>'code',
+    'pending'
+  )
+  returning id into v_order_id;
+
+  if v_promotion is not null then
+    update promotions
+    set uses = uses + 1
+    where id = (v_promotion->>'promotion_id')::uuid;
+  end if;
+
+  insert into order_items (order_id, product_id, variant_id, product_name, variant_name, quantity, unit_price)
+  select
+    v_order_id,
+    p.id,
+    v.id,
+    p.name,
+    case when v.id is not null then public.variant_label(v.id) end,
+    r.quantity,
+    coalesce(v.price, p.price)
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id;
+
+  return jsonb_build_object('order_id', v_order_id, 'shortfalls', '[]'::jsonb, 'pricing', v_pricing);
+end;
+$$;
+
+revoke execute on function public.place_order(jsonb, text, text) from public, anon;
+grant execute on function public.place_order(jsonb, text, text) to authenticated;
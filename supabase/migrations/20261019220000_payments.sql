@@ -0,0 +1,161 @@
+-- Payments. An order is created 'pending' by place_order() and only becomes
+-- 'paid' when the payment provider reports a captured payment for its total.
+-- Provider events are recorded once each (by provider and event id), so
+-- webhook retries and out-of-order deliveries are harmless.
+
+create table if not exists public.payments (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  provider text not null,
+  provider_payment_id text not null,
+  status text not null check (status in ('requires_action', 'authorized', 'captured', 'failed', 'refunded')),
+  amount numeric(10, 2) not null check (amount >= 0),
+  amount_refunded numeric(10, 2) not null default 0 check (amount_refunded >= 0),
+  failure_reason text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (provider, provider_payment_id)
+);
+
+create table if not exists public.payment_events (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null,
+  provider_event_id text not null,
+  payment_id uuid references public.payments (id) on delete cascade,
+  type text not null,
+  payload jsonb not null,
+  created_at timestamptz not null default now(),
+  unique (provider, provider_event_id)
+);
+
+create index if not exists payments_order_id_idx on public.payments (order_id);
+
+alter table public.payments enable row level security;
+alter table public.payment_events enable row level security;
+
+drop policy if exists "Users can view payments for their orders" on public.payments;
+create policy "Users can view payments for their orders"
+  on public.payments for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.orders o
+      where o.id = payments.order_id and o.user_id = auth.uid()
+    )
+  );
+
+-- Whether customers' browsers may report events from the mock gateway. It is
+-- off unless turned on for local development, which supabase/seed.sql does,
+-- so elsewhere only the service role can record payment events.
+create table if not exists public.payment_settings (
+  id boolean primary key default true check (id),
+  mock_gateway_enabled boolean not null default false
+);
+
+insert into public.payment_settings (id)
+values (true)
+on conflict (id) do nothing;
+
+alter table public.payment_settings enable row level security;
+
+drop policy if exists "Anyone can view payment settings" on public.payment_settings;
+create policy "Anyone can view payment settings"
+  on public.payment_settings for select
+  to anon, authenticated
+  using (true);
+
+-- Records a provider event: {id, type, provider, payment_id, order_id,
+-- amount, failure_reason?}. Types are payment.requires_action,
+-- payment.authorized, payment.failed, payment.captured and payment.refunded.
+--
+-- Webhooks from a real provider must be verified and recorded by a server-side
+-- handler using the service role. Where the mock gateway is enabled,
+-- signed-in customers may record its events, and only for their own orders.
+create or replace function public.record_payment_event(event jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_provider text := event->>'provider';
+  v_type text := event->>'type';
+  v_order_id uuid := (event->>'order_id')::uuid;
+  v_amount numeric := (event->>'amount')::numeric;
+  v_order orders%rowtype;
+  v_payment_id uuid;
+  v_status text;
+begin
+  if auth.role() <> 'service_role' then
+    if v_provider <> 'mock' then
+      raise exception 'Only the mock gateway may report payments from the client' using errcode = '42501';
+    end if;
+    if not exists (select 1 from payment_settings where mock_gateway_enabled) then
+      raise exception 'The mock payment gateway is disabled' using errcode = '42501';
+    end if;
+    if not exists (select 1 from orders where id = v_order_id and user_id = auth.uid()) then
+      raise exception 'Order not found' using errcode = 'P0002';
+    end if;
+  end if;
+
+  select * into v_order from orders where id = v_order_id for update;
+  if not found then
+    raise exception 'Order not found' using errcode = 'P0002';
+  end if;
+
+  v_status := case v_type
+    when 'payment.requires_action' then 'requires_action'
+    when 'payment.authorized' then 'authorized'
+    when 'payment.failed' then 'failed'
+    when 'payment.captured' then 'captured'
+    when 'payment.refunded' then 'refunded'
+  end;
+  if v_status is null then
+    raise exception 'Unknown payment event type %', v_type using errcode = '22023';
+  end if;
+
+  -- Each event is applied once, however often it is delivered
+  if exists (
+    select 1 from payment_events
+    where provider = v_provider and provider_event_id = event->>'id'
+  ) then
+    return jsonb_build_object('duplicate', true, 'order_status', v_order.status);
+  end if;
+
+  insert into payments (order_id, provider, provider_payment_id, status, amount, failure_reason)
+  values (v_order_id, v_provider, event->>'payment_id', v_status, coalesce(v_amount, 0), event->>'failure_reason')
+  on conflict (provider, provider_payment_id) do update
+  set
+    -- A late authorization must not undo a capture or refund
+    status = case
+      when payments.status in ('captured', 'refunded') and excluded.status in ('requires_action', 'authorized', 'failed')
+        then payments.status
+      else excluded.status
+    end,
+    amount_refunded = case
+      when excluded.status = 'refunded' then payments.amount_refunded + coalesce(v_amount, 0)
+      else payments.amount_refunded
+    end,
+    failure_reason = coalesce(excluded.failure_reason, payments.failure_reason),
+    updated_at = now()
+  returning id into v_payment_id;
+
+  insert into payment_events (provider, provider_event_id, payment_id, type, payload)
+  values (v_provider, event->>'id', v_payment_id, v_type, event);
+
+  -- Only a confirmed capture of the full total pays for the order
+  if v_type = 'payment.captured' and v_order.status = 'pending' and v_amount = v_order.total then
+    update orders set status = 'paid' where id = v_order_id;
+    v_order.status := 'paid';
+  elsif v_type = 'payment.refunded' and v_order.status = 'paid'
+    and (select amount_refunded from payments where id = v_payment_id) >= v_order.total then
+    update orders set status = 'refunded' where id = v_order_id;
+    v_order.status := 'refunded';
+  end if;
+
+  return jsonb_build_object('duplicate', false, 'order_status', v_order.status);
+end;
+$$;
+
+revoke execute on function public.record_payment_event(jsonb) from public, anon;
+grant execute on function public.record_payment_event(jsonb) to authenticated, service_role;
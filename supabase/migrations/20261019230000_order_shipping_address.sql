@@ -0,0 +1,177 @@
+-- Orders keep the address they ship to, so the confirmation page and order
+-- history can show it. Tax is priced from the address's state.
+
+alter table public.orders
+  add column if not exists shipping_address jsonb;
+
+drop function if exists public.place_order(jsonb, text, text);
+
+create or replace function public.place_order(items jsonb, shipping_address jsonb, promotion_code text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lines jsonb;
+  v_shortfalls jsonb;
+  v_order_id uuid;
+  v_pricing jsonb;
+  v_promotion jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required' using errcode = '28000';
+  end if;
+
+  if shipping_address is null or jsonb_typeof(shipping_address) <> 'object' then
+    raise exception 'A shipping address is required' using errcode = '22023';
+  end if;
+
+  if items is null or jsonb_typeof(items) <> 'array' or jsonb_array_length(items) = 0 then
+    raise exception 'Order must contain at least one item' using errcode = '22023';
+  end if;
+
+  -- Collapse duplicate lines so each product or variant is checked once
+  select jsonb_agg(jsonb_build_object('id', line.id, 'variant_id', line.variant_id, 'quantity', line.quantity))
+  into v_lines
+  from (
+    select
+      (e->>'id')::uuid as id,
+      nullif(e->>'variant_id', '')::uuid as variant_id,
+      sum((e->>'quantity')::int) as quantity
+    from jsonb_array_elements(items) as e
+    group by 1, 2
+  ) as line;
+
+  if exists (
+    select 1 from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+    where r.quantity is null or r.quantity < 1
+  ) then
+    raise exception 'Item quantities must be at least 1' using errcode = '22023';
+  end if;
+
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  perform 1
+  from products p
+  where p.id in (select r.id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by p.id
+  for update;
+
+  perform 1
+  from product_variants v
+  where v.id in (select r.variant_id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by v.id
+  for update;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'product_id', r.id,
+        'variant_id', r.variant_id,
+        'name', p.name,
+        'requested', r.quantity,
+        'available', case
+          when r.variant_id is not null then coalesce(v.stock, 0)
+          when p.has_variants then 0
+          else coalesce(p.stock, 0)
+        end
+      )
+      order by r.id, r.variant_id
+    ),
+    '[]'::jsonb
+  )
+  into v_shortfalls
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  left join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id and v.product_id = r.id
+  where p.id is null
+    or (r.variant_id is null and (p.has_variants or p.stock < r.quantity))
+    or (r.variant_id is not null and (v.id is null or v.stock < r.quantity));
+
+  if jsonb_array_length(v_shortfalls) > 0 then
+    return jsonb_build_object('order_id', null, 'shortfalls', v_shortfalls);
+  end if;
+
+  -- The promotion is checked again with its row locked, so a code can't be
+  -- used past its limit by orders placed at the same time. This happens
+  -- before stock is taken, since a rejected code returns without rolling back.
+  if nullif(trim(promotion_code), '') is not null then
+    perform 1 from promotions where code = upper(trim(promotion_code)) for update;
+
+    v_promotion := public.check_promotion(promotion_code, v_lines);
+    if v_promotion->>'error' is not null then
+      return jsonb_build_object(
+        'order_id', null,
+        'shortfalls', '[]'::jsonb,
+        'promotion_error', v_promotion->>'error'
+      );
+    end if;
+  end if;
+
+  update products p
+  set stock = p.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where p.id = r.id and r.variant_id is null;
+
+  -- Product stock for variants is re-summed by sync_product_variant_stock
+  update product_variants v
+  set stock = v.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where v.id = r.variant_id;
+
+  -- Priced from the catalog and the pricing rules, never from the client
+  v_pricing := public.calculate_order_pricing(v_lines, shipping_address->>'state', v_promotion);
+
+  insert into orders (user_id, shipping_address, subtotal, discount, shipping, tax, total, promotion_id, promotion_code, status)
+  values (
+    v_user_id,
+    shipping_address,
+    (v_pricing->>'subtotal')::numeric,
+    (v_pricing->>'discount')::numeric,
+    (v_pricing->>'shipping')::numeric,
+    (v_pricing->>'tax')::numeric,
+    (v_pricing->>'total')::numeric,
+    (v_promotion->>'promotion_id')::uuid,
+    v_promotion->>'code',
+    'pending'
+  )
+  returning id into v_order_id;
+
+  if v_promotion is not null then
+    update promotions
+    set uses = uses + 1
+    where id = (v_promotion->>'promotion_id')::uuid;
+  end if;
+
+  insert into order_items (order_id, product_id, variant_id, product_name, variant_name, quantity, unit_price)
+  select
+    v_order_id,
+    p.id,
+    v.id,
+    p.name,
+    case when v.id is not null then public.variant_label(v.id) end,
+    r.quantity,
+    coalesce(v.price, p.price)
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id;
+
+  return jsonb_build_object('order_id', v_order_id, 'shortfalls', '[]'::jsonb, 'pricing', v_pricing);
+end;
+$$;
+
+revoke execute on function public.place_order(jsonb, jsonb, text) from public, anon;
+grant execute on function public.place_order(jsonb, jsonb, text) to authenticated;
+
+-- The confirmation page follows the order's status as payment webhooks land
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'orders'
+  ) then
+    alter publication supabase_realtime add table public.orders;
+  end if;
+end;
+$$;
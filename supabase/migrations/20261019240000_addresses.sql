@@ -0,0 +1,62 @@
+-- Saved shipping addresses. Checkout offers them in place of retyping the
+-- form, starting from the customer's default. Orders keep their own copy of
+-- the address in orders.shipping_address, so editing or deleting an address
+-- never changes a past order.
+
+create table if not exists public.addresses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  label text,
+  first_name text not null,
+  last_name text not null,
+  email text not null,
+  phone text not null,
+  address text not null,
+  city text not null,
+  state text not null,
+  zip_code text not null,
+  is_default boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists addresses_user_id_idx on public.addresses (user_id);
+create unique index if not exists addresses_one_default_idx on public.addresses (user_id) where is_default;
+
+alter table public.addresses enable row level security;
+
+drop policy if exists "Users can manage their addresses" on public.addresses;
+create policy "Users can manage their addresses"
+  on public.addresses for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- A customer's first address becomes their default, and making an address the
+-- default unsets the previous one
+create or replace function public.sync_default_address()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not new.is_default and not exists (
+    select 1 from addresses where user_id = new.user_id and is_default and id <> new.id
+  ) then
+    new.is_default := true;
+  end if;
+
+  if new.is_default then
+    update addresses
+    set is_default = false
+    where user_id = new.user_id and is_default and id <> new.id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_default_address on public.addresses;
+create trigger sync_default_address
+  before insert or update of is_default on public.addresses
+  for each row execute function public.sync_default_address();
@@ -0,0 +1,481 @@
+-- Countries we ship to, with the postal code and phone formats and the
+-- states or provinces of each. The checkout form builds its validation from
+-- these rows and validate_shipping_address() checks orders and saved
+-- addresses against the same rows, so the two can't drift apart.
+--
+-- Patterns are matched by both Postgres and JavaScript, so keep them to
+-- syntax the two share. Postal codes are upper-cased and trimmed before they
+-- are matched; phone numbers have spaces, dots, dashes and parentheses removed.
+
+create table if not exists public.shipping_countries (
+  code text primary key check (code = upper(code)),
+  name text not null,
+  region_label text not null,
+  postal_code_label text not null,
+  postal_code_pattern text not null,
+  phone_pattern text not null,
+  position integer not null default 0
+);
+
+create table if not exists public.shipping_regions (
+  country_code text not null references public.shipping_countries (code) on delete cascade,
+  code text not null,
+  name text not null,
+  primary key (country_code, code)
+);
+
+alter table public.shipping_countries enable row level security;
+alter table public.shipping_regions enable row level security;
+
+drop policy if exists "Anyone can view shipping countries" on public.shipping_countries;
+create policy "Anyone can view shipping countries"
+  on public.shipping_countries for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Anyone can view shipping regions" on public.shipping_regions;
+create policy "Anyone can view shipping regions"
+  on public.shipping_regions for select
+  to anon, authenticated
+  using (true);
+
+insert into public.shipping_countries (code, name, region_label, postal_code_label, postal_code_pattern, phone_pattern, position)
+values
+  ('US', 'United States', 'State', 'ZIP code', '^\d{5}(-\d{4})?$', '^(\+?1)?[2-9]\d{2}[2-9]\d{6}$', 0),
+  ('CA', 'Canada', 'Province', 'Postal code', '^[A-Z]\d[A-Z] ?\d[A-Z]\d$', '^(\+?1)?[2-9]\d{2}[2-9]\d{6}$', 1),
+  ('GB', 'United Kingdom', 'Nation', 'Postcode', '^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$', '^(\+44|0)\d{9,10}$', 2),
+  ('AU', 'Australia', 'State', 'Postcode', '^\d{4}$', '^(\+61|0)[2-478]\d{8}$', 3)
+on conflict (code) do nothing;
+
+insert into public.shipping_regions (country_code, code, name)
+values
+  ('US', 'AL', 'Alabama'),
+  ('US', 'AK', 'Alaska'),
+  ('US', 'AZ', 'Arizona'),
+  ('US', 'AR', 'Arkansas'),
+  ('US', 'CA', 'California'),
+  ('US', 'CO', 'Colorado'),
+  ('US', 'CT', 'Connecticut'),
+  ('US', 'DE', 'Delaware'),
+  ('US', 'DC', 'District of Columbia'),
+  ('US', 'FL', 'Florida'),
+  ('US', 'GA', 'Georgia'),
+  ('US', 'HI', 'Hawaii'),
+  ('US', 'ID', 'Idaho'),
+  ('US', 'IL', 'Illinois'),
+  ('US', 'IN', 'Indiana'),
+  ('US', 'IA', 'Iowa'),
+  ('US', 'KS', 'Kansas'),
+  ('US', 'KY', 'Kentucky'),
+  ('US', 'LA', 'Louisiana'),
+  ('US', 'ME', 'Maine'),
+  ('US', 'MD', 'Maryland'),
+  ('US', 'MA', 'Massachusetts'),
+  ('US', 'MI', 'Michigan'),
+  ('US', 'MN', 'Minnesota'),
+  ('US', 'MS', 'Mississippi'),
+  ('US', 'MO', 'Missouri'),
+  ('US', 'MT', 'Montana'),
+  ('US', 'NE', 'Nebraska'),
+  ('US', 'NV', 'Nevada'),
+  ('US', 'NH', 'New Hampshire'),
+  ('US', 'NJ', 'New Jersey'),
+  ('US', 'NM', 'New Mexico'),
+  ('US', 'NY', 'New York'),
+  ('US', 'NC', 'North Carolina'),
+  ('US', 'ND', 'North Dakota'),
+  ('US', 'OH', 'Ohio'),
+  ('US', 'OK', 'Oklahoma'),
+  ('US', 'OR', 'Oregon'),
+  ('US', 'PA', 'Pennsylvania'),
+  ('US', 'RI', 'Rhode Island'),
+  ('US', 'SC', 'South Carolina'),
+  ('US', 'SD', 'South Dakota'),
+  ('US', 'TN', 'Tennessee'),
+  ('US', 'TX', 'Texas'),
+  ('US', 'UT', 'Utah'),
+  ('US', 'VT', 'Vermont'),
+  ('US', 'VA', 'Virginia'),
+  ('US', 'WA', 'Washington'),
+  ('US', 'WV', 'West Virginia'),
+  ('US', 'WI', 'Wisconsin'),
+  ('US', 'WY', 'Wyoming'),
+  ('CA', 'AB', 'Alberta'),
+  ('CA', 'BC', 'British Columbia'),
+  ('CA', 'MB', 'Manitoba'),
+  ('CA', 'NB', 'New Brunswick'),
+  ('CA', 'NL', 'Newfoundland and Labrador'),
+  ('CA', 'NS', 'Nova Scotia'),
+  ('CA', 'NT', 'Northwest Territories'),
+  ('CA', 'NU', 'Nunavut'),
+  ('CA', 'ON', 'Ontario'),
+  ('CA', 'PE', 'Prince Edward Island'),
+  ('CA', 'QC', 'Quebec'),
+  ('CA', 'SK', 'Saskatchewan'),
+  ('CA', 'YT', 'Yukon'),
+  ('GB', 'ENG', 'England'),
+  ('GB', 'NIR', 'Northern Ireland'),
+  ('GB', 'SCT', 'Scotland'),
+  ('GB', 'WLS', 'Wales'),
+  ('AU', 'ACT', 'Australian Capital Territory'),
+  ('AU', 'NSW', 'New South Wales'),
+  ('AU', 'NT', 'Northern Territory'),
+  ('AU', 'QLD', 'Queensland'),
+  ('AU', 'SA', 'South Australia'),
+  ('AU', 'TAS', 'Tasmania'),
+  ('AU', 'VIC', 'Victoria'),
+  ('AU', 'WA', 'Western Australia')
+on conflict (country_code, code) do nothing;
+
+-- Addresses saved before countries existed are all in the United States
+alter table public.addresses
+  add column if not exists country text not null default 'US' references public.shipping_countries (code);
+
+-- Checks an address shaped like orders.shipping_address and returns an object
+-- of field name to message, empty when the address is valid. The checkout
+-- form's schema (createShippingAddressSchema) gives the same messages.
+create or replace function public.validate_shipping_address(address jsonb)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_errors jsonb := '{}'::jsonb;
+  v_country shipping_countries%rowtype;
+  v_field text;
+  v_value text;
+begin
+  if address is null or jsonb_typeof(address) <> 'object' then
+    return jsonb_build_object('address', 'A shipping address is required');
+  end if;
+
+  foreach v_field in array array['first_name', 'last_name', 'city'] loop
+    v_value := trim(coalesce(address->>v_field, ''));
+    if v_value = '' then
+      v_errors := v_errors || jsonb_build_object(v_field, 'This field is required');
+    elsif length(v_value) > 100 then
+      v_errors := v_errors || jsonb_build_object(v_field, 'Must be 100 characters or fewer');
+    end if;
+  end loop;
+
+  v_value := trim(coalesce(address->>'address', ''));
+  if v_value = '' then
+    v_errors := v_errors || jsonb_build_object('address', 'This field is required');
+  elsif length(v_value) > 200 then
+    v_errors := v_errors || jsonb_build_object('address', 'Must be 200 characters or fewer');
+  end if;
+
+  if trim(coalesce(address->>'email', '')) !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' then
+    v_errors := v_errors || jsonb_build_object('email', 'Enter a valid email address');
+  end if;
+
+  select * into v_country from shipping_countries where code = address->>'country';
+  if not found then
+    return v_errors || jsonb_build_object('country', 'Select a country we ship to');
+  end if;
+
+  if not exists (
+    select 1 from shipping_regions
+    where country_code = v_country.code and code = address->>'state'
+  ) then
+    v_errors := v_errors || jsonb_build_object('state', 'Select a ' || lower(v_country.region_label));
+  end if;
+
+  if upper(trim(coalesce(address->>'zip_code', ''))) !~ v_country.postal_code_pattern then
+    v_errors := v_errors || jsonb_build_object('zip_code', 'Enter a valid ' || v_country.postal_code_label);
+  end if;
+
+  if regexp_replace(coalesce(address->>'phone', ''), '[\s().-]', '', 'g') !~ v_country.phone_pattern then
+    v_errors := v_errors || jsonb_build_object('phone', 'Enter a valid ' || v_country.name || ' phone number');
+  end if;
+
+  return v_errors;
+end;
+$$;
+
+grant execute on function public.validate_shipping_address(jsonb) to anon, authenticated;
+
+create or replace function public.check_address()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_errors jsonb := public.validate_shipping_address(to_jsonb(new));
+begin
+  if v_errors <> '{}'::jsonb then
+    raise exception 'Invalid address' using errcode = '22023', detail = v_errors::text;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Changing only the default flag doesn't re-check an address
+drop trigger if exists check_address on public.addresses;
+create trigger check_address
+  before insert or update of first_name, last_name, email, phone, address, city, state, zip_code, country
+  on public.addresses
+  for each row execute function public.check_address();
+
+-- Tax rates are per country, since region codes such as WA repeat across
+-- countries. A country's '*' region applies to its regions without a rate of
+-- their own, and the '*' country to countries without any rates.
+alter table public.tax_rates
+  add column if not exists country text check (country = upper(country));
+
+-- Rates for specific regions were all for US states until now
+update public.tax_rates
+set country = case when region = '*' then '*' else 'US' end
+where country is null;
+
+alter table public.tax_rates alter column country set not null;
+alter table public.tax_rates drop constraint if exists tax_rates_pkey;
+alter table public.tax_rates add constraint tax_rates_pkey primary key (country, region);
+
+drop function if exists public.calculate_order_pricing(jsonb, text, jsonb);
+
+-- p_promotion is a successful check_promotion() result, or null
+create or replace function public.calculate_order_pricing(
+  items jsonb,
+  p_country text,
+  p_region text,
+  p_promotion jsonb default null
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_subtotal numeric;
+  v_discount numeric := coalesce((p_promotion->>'discount')::numeric, 0);
+  v_weight numeric;
+  v_shipping numeric;
+  v_rate numeric;
+  v_tax numeric;
+begin
+  select
+    coalesce(round(sum(coalesce(v.price, p.price) * (e->>'quantity')::int), 2), 0),
+    coalesce(sum(p.weight * (e->>'quantity')::int), 0)
+  into v_subtotal, v_weight
+  from jsonb_array_elements(items) as e
+  join products p on p.id = (e->>'id')::uuid
+  left join product_variants v on v.id = nullif(e->>'variant_id', '')::uuid and v.product_id = p.id;
+
+  v_discount := least(v_discount, v_subtotal);
+
+  if coalesce((p_promotion->>'free_shipping')::boolean, false) then
+    v_shipping := 0;
+  else
+    select
+      coalesce(
+        (select s.amount from shipping_rates s
+         where s.min_subtotal <= v_subtotal - v_discount
+         order by s.min_subtotal desc
+         limit 1),
+        0
+      ) + coalesce(
+        (select s.amount from shipping_rates s
+         where s.min_weight <= v_weight
+         order by s.min_weight desc
+         limit 1),
+        0
+      )
+    into v_shipping;
+  end if;
+
+  -- The region's own rate, then its country's default, then the store default
+  select coalesce(
+    (select t.rate from tax_rates t
+     where (t.country, t.region) in (
+       (upper(trim(coalesce(p_country, ''))), upper(trim(coalesce(p_region, '')))),
+       (upper(trim(coalesce(p_country, ''))), '*'),
+       ('*', '*')
+     )
+     order by t.country = '*', t.region = '*'
+     limit 1),
+    0
+  )
+  into v_rate;
+
+  v_tax := round((v_subtotal - v_discount) * v_rate, 2);
+
+  return jsonb_build_object(
+    'subtotal', v_subtotal,
+    'discount', v_discount,
+    'shipping', v_shipping,
+    'tax', v_tax,
+    'total', v_subtotal - v_discount + v_shipping + v_tax
+  );
+end;
+$$;
+
+revoke execute on function public.calculate_order_pricing(jsonb, text, text, jsonb) from public, anon;
+grant execute on function public.calculate_order_pricing(jsonb, text, text, jsonb) to authenticated;
+
+-- Orders are only placed for addresses that pass validate_shipping_address;
+-- otherwise the errors come back by field for the checkout form to show.
+create or replace function public.place_order(items jsonb, shipping_address jsonb, promotion_code text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lines jsonb;
+  v_shortfalls jsonb;
+  v_order_id uuid;
+  v_pricing jsonb;
+  v_promotion jsonb;
+  v_address_errors jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required' using errcode = '28000';
+  end if;
+
+  v_address_errors := public.validate_shipping_address(shipping_address);
+  if v_address_errors <> '{}'::jsonb then
+    return jsonb_build_object('order_id', null, 'shortfalls', '[]'::jsonb, 'address_errors', v_address_errors);
+  end if;
+
+  if items is null or jsonb_typeof(items) <> 'array' or jsonb_array_length(items) = 0 then
+    raise exception 'Order must contain at least one item' using errcode = '22023';
+  end if;
+
+  -- Collapse duplicate lines so each product or variant is checked once
+  select jsonb_agg(jsonb_build_object('id', line.id, 'variant_id', line.variant_id, 'quantity', line.quantity))
+  into v_lines
+  from (
+    select
+      (e->>'id')::uuid as id,
+      nullif(e->>'variant_id', '')::uuid as variant_id,
+      sum((e->>'quantity')::int) as quantity
+    from jsonb_array_elements(items) as e
+    group by 1, 2
+  ) as line;
+
+  if exists (
+    select 1 from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+    where r.quantity is null or r.quantity < 1
+  ) then
+    raise exception 'Item quantities must be at least 1' using errcode = '22023';
+  end if;
+
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  perform 1
+  from products p
+  where p.id in (select r.id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by p.id
+  for update;
+
+  perform 1
+  from product_variants v
+  where v.id in (select r.variant_id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by v.id
+  for update;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'product_id', r.id,
+        'variant_id', r.variant_id,
+        'name', p.name,
+        'requested', r.quantity,
+        'available', case
+          when r.variant_id is not null then coalesce(v.stock, 0)
+          when p.has_variants then 0
+          else coalesce(p.stock, 0)
+        end
+      )
+      order by r.id, r.variant_id
+    ),
+    '[]'::jsonb
+  )
+  into v_shortfalls
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  left join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id and v.product_id = r.id
+  where p.id is null
+    or (r.variant_id is null and (p.has_variants or p.stock < r.quantity))
+    or (r.variant_id is not null and (v.id is null or v.stock < r.quantity));
+
+  if jsonb_array_length(v_shortfalls) > 0 then
+    return jsonb_build_object('order_id', null, 'shortfalls', v_shortfalls);
+  end if;
+
+  -- The promotion is checked again with its row locked, so a code can't be
+  -- used past its limit by orders placed at the same time. This happens
+  -- before stock is taken, since a rejected code returns without rolling back.
+  if nullif(trim(promotion_code), '') is not null then
+    perform 1 from promotions where code = upper(trim(promotion_code)) for update;
+
+    v_promotion := public.check_promotion(promotion_code, v_lines);
+    if v_promotion->>'error' is not null then
+      return jsonb_build_object(
+        'order_id', null,
+        'shortfalls', '[]'::jsonb,
+        'promotion_error', v_promotion->>'error'
+      );
+    end if;
+  end if;
+
+  update products p
+  set stock = p.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where p.id = r.id and r.variant_id is null;
+
+  -- Product stock for variants is re-summed by sync_product_variant_stock
+  update product_variants v
+  set stock = v.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where v.id = r.variant_id;
+
+  -- Priced from the catalog and the pricing rules, never from the client
+  v_pricing := public.calculate_order_pricing(v_lines, shipping_address->>'country', shipping_address->>'state', v_promotion);
+
+  insert into orders (user_id, shipping_address, subtotal, discount, shipping, tax, total, promotion_id, promotion_code, status)
+  values (
+    v_user_id,
+    shipping_address,
+    (v_pricing->>'subtotal')::numeric,
+    (v_pricing->>'discount')::numeric,
+    (v_pricing->>'shipping')::numeric,
+    (v_pricing->>'tax')::numeric,
+    (v_pricing->>'total')::numeric,
+    (v_promotion->>'promotion_id')::uuid,
+    v_promotion->>'code',
+    'pending'
+  )
+  returning id into v_order_id;
+
+  if v_promotion is not null then
+    update promotions
+    set uses = uses + 1
+    where id = (v_promotion->>'promotion_id')::uuid;
+  end if;
+
+  insert into order_items (order_id, product_id, variant_id, product_name, variant_name, quantity, unit_price)
+  select
+    v_order_id,
+    p.id,
+    v.id,
+    p.name,
+    case when v.id is not null then public.variant_label(v.id) end,
+    r.quantity,
+    coalesce(v.price, p.price)
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id;
+
+  return jsonb_build_object('order_id', v_order_id, 'shortfalls', '[]'::jsonb, 'pricing', v_pricing);
+end;
+$$;
+
+revoke execute on function public.place_order(jsonb, jsonb, text) from public, anon;
+grant execute on function public.place_order(jsonb, jsonb, text) to authenticated;
@@ -0,0 +1,370 @@
+-- Guest checkout. Orders can be placed without an account: they are linked
+-- to the shipping email instead of a user, and the guest views them through
+-- a link carrying a secret access token. When an account confirms the same
+-- email, its guest orders move into the account.
+
+alter table public.orders alter column user_id drop not null;
+
+alter table public.orders
+  add column if not exists guest_email text,
+  add column if not exists guest_token_hash bytea;
+
+alter table public.orders drop constraint if exists orders_owner_check;
+alter table public.orders
+  add constraint orders_owner_check
+  check (user_id is not null or (guest_email is not null and guest_token_hash is not null));
+
+create index if not exists orders_guest_email_idx on public.orders (guest_email) where user_id is null;
+
+create or replace function public.place_order(items jsonb, shipping_address jsonb, promotion_code text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lines jsonb;
+  v_shortfalls jsonb;
+  v_order_id uuid;
+  v_pricing jsonb;
+  v_promotion jsonb;
+  v_address_errors jsonb;
+  v_guest_email text;
+  v_access_token text;
+begin
+  v_address_errors := public.validate_shipping_address(shipping_address);
+  if v_address_errors <> '{}'::jsonb then
+    return jsonb_build_object('order_id', null, 'shortfalls', '[]'::jsonb, 'address_errors', v_address_errors);
+  end if;
+
+  -- A guest order belongs to the email it ships to until an account with
+  -- that email claims it. Until then the guest reaches it with a secret token,
+  -- of which only the hash is kept.
+  if v_user_id is null then
+    v_guest_email := lower(trim(shipping_address->>'email'));
+    v_access_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+  end if;
+
+  if items is null or jsonb_typeof(items) <> 'array' or jsonb_array_length(items) = 0 then
+    raise exception 'Order must contain at least one item' using errcode = '22023';
+  end if;
+
+  -- Collapse duplicate lines so each product or variant is checked once
+  select jsonb_agg(jsonb_build_object('id', line.id, 'variant_id', line.variant_id, 'quantity', line.quantity))
+  into v_lines
+  from (
+    select
+      (e->>'id')::uuid as id,
+      nullif(e->>'variant_id', '')::uuid as variant_id,
+      sum((e->>'quantity')::int) as quantity
+    from jsonb_array_elements(items) as e
+    group by 1, 2
+  ) as line;
+
+  if exists (
+    select 1 from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+    where r.quantity is null or r.quantity < 1
+  ) then
+    raise exception 'Item quantities must be at least 1' using errcode = '22023';
+  end if;
+
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  perform 1
+  from products p
+  where p.id in (select r.id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by p.id
+  for update;
+
+  perform 1
+  from product_variants v
+  where v.id in (select r.variant_id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by v.id
+  for update;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'product_id', r.id,
+        'variant_id', r.variant_id,
+        'name', p.name,
+        'requested', r.quantity,
+        'available', case
+          when r.variant_id is not null then coalesce(v.stock, 0)
+          when p.has_variants then 0
+          else coalesce(p.stock, 0)
+        end
+      )
+      order by r.id, r.variant_id
+    ),
+    '[]'::jsonb
+  )
+  into v_shortfalls
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  left join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id and v.product_id = r.id
+  where p.id is null
+    or (r.variant_id is null and (p.has_variants or p.stock < r.quantity))
+    or (r.variant_id is not null and (v.id is null or v.stock < r.quantity));
+
+  if jsonb_array_length(v_shortfalls) > 0 then
+    return jsonb_build_object('order_id', null, 'shortfalls', v_shortfalls);
+  end if;
+
+  -- The promotion is checked again with its row locked, so a code can't be
+  -- used past its limit by orders placed at the same time. This happens
+  -- before stock is taken, since a rejected code returns without rolling back.
+  if nullif(trim(promotion_code), '') is not null then
+    perform 1 from promotions where code = upper(trim(promotion_code)) for update;
+
+    v_promotion := public.check_promotion(promotion_code, v_lines);
+    if v_promotion->>'error' is not null then
+      return jsonb_build_object(
+        'order_id', null,
+        'shortfalls', '[]'::jsonb,
+        'promotion_error', v_promotion->>'error'
+      );
+    end if;
+  end if;
+
+  update products p
+  set stock = p.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where p.id = r.id and r.variant_id is null;
+
+  -- Product stock for variants is re-summed by sync_product_variant_stock
+  update product_variants v
+  set stock = v.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where v.id = r.variant_id;
+
+  -- Priced from the catalog and the pricing rules, never from the client
+  v_pricing := public.calculate_order_pricing(v_lines, shipping_address->>'country', shipping_address->>'state', v_promotion);
+
+  insert into orders (
+    user_id, guest_email, guest_token_hash, shipping_address,
+    subtotal, discount, shipping, tax, total, promotion_id, promotion_code, status
+  )
+  values (
+    v_user_id,
+    v_guest_email,
+    case when v_access_token is not null then sha256(convert_to(v_access_token, 'UTF8')) end,
+    shipping_address,
+    (v_pricing->>'subtotal')::numeric,
+    (v_pricing->>'discount')::numeric,
+    (v_pricing->>'shipping')::numeric,
+    (v_pricing->>'tax')::numeric,
+    (v_pricing->>'total')::numeric,
+    (v_promotion->>'promotion_id')::uuid,
+    v_promotion->>'code',
+    'pending'
+  )
+  returning id into v_order_id;
+
+  if v_promotion is not null then
+    update promotions
+    set uses = uses + 1
+    where id = (v_promotion->>'promotion_id')::uuid;
+  end if;
+
+  insert into order_items (order_id, product_id, variant_id, product_name, variant_name, quantity, unit_price)
+  select
+    v_order_id,
+    p.id,
+    v.id,
+    p.name,
+    case when v.id is not null then public.variant_label(v.id) end,
+    r.quantity,
+    coalesce(v.price, p.price)
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id;
+
+  return jsonb_build_object(
+    'order_id', v_order_id,
+    'shortfalls', '[]'::jsonb,
+    'pricing', v_pricing,
+    'access_token', v_access_token
+  );
+end;
+$$;
+
+revoke execute on function public.place_order(jsonb, jsonb, text) from public;
+grant execute on function public.place_order(jsonb, jsonb, text) to anon, authenticated;
+
+-- The guest's view of an order: the same fields the order page selects,
+-- found by id and access token. Returns null when either doesn't match.
+create or replace function public.get_guest_order(p_order_id uuid, p_access_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', o.id,
+    'created_at', o.created_at,
+    'status', o.status,
+    'subtotal', o.subtotal,
+    'discount', o.discount,
+    'shipping', o.shipping,
+    'tax', o.tax,
+    'total', o.total,
+    'promotion_code', o.promotion_code,
+    'shipping_address', o.shipping_address,
+    -- Left out once an account has claimed the order
+    'guest_email', case when o.user_id is null then o.guest_email end,
+    'order_items', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', oi.id,
+            'product_id', oi.product_id,
+            'product_name', oi.product_name,
+            'variant_name', oi.variant_name,
+            'quantity', oi.quantity,
+            'unit_price', oi.unit_price
+          )
+          order by oi.created_at
+        )
+        from order_items oi
+        where oi.order_id = o.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  from orders o
+  where o.id = p_order_id
+    and o.guest_token_hash = sha256(convert_to(p_access_token, 'UTF8'));
+$$;
+
+grant execute on function public.get_guest_order(uuid, text) to anon, authenticated;
+
+drop function if exists public.record_payment_event(jsonb);
+
+-- Records a provider event: {id, type, provider, payment_id, order_id,
+-- amount, failure_reason?}. Types are payment.requires_action,
+-- payment.authorized, payment.failed, payment.captured and payment.refunded.
+--
+-- Webhooks from a real provider must be verified and recorded by a server-side
+-- handler using the service role. Where the mock gateway is enabled in
+-- payment_settings, customers may record its events, and only for their own
+-- orders: signed-in customers for orders on their account, guests for the
+-- order their access token opens.
+create or replace function public.record_payment_event(event jsonb, access_token text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_provider text := event->>'provider';
+  v_type text := event->>'type';
+  v_order_id uuid := (event->>'order_id')::uuid;
+  v_amount numeric := (event->>'amount')::numeric;
+  v_order orders%rowtype;
+  v_payment_id uuid;
+  v_status text;
+begin
+  if auth.role() <> 'service_role' then
+    if v_provider <> 'mock' then
+      raise exception 'Only the mock gateway may report payments from the client' using errcode = '42501';
+    end if;
+    if not exists (select 1 from payment_settings where mock_gateway_enabled) then
+      raise exception 'The mock payment gateway is disabled' using errcode = '42501';
+    end if;
+    if not exists (
+      select 1 from orders
+      where id = v_order_id
+        and (user_id = auth.uid() or guest_token_hash = sha256(convert_to(access_token, 'UTF8')))
+    ) then
+      raise exception 'Order not found' using errcode = 'P0002';
+    end if;
+  end if;
+
+  select * into v_order from orders where id = v_order_id for update;
+  if not found then
+    raise exception 'Order not found' using errcode = 'P0002';
+  end if;
+
+  v_status := case v_type
+    when 'payment.requires_action' then 'requires_action'
+    when 'payment.authorized' then 'authorized'
+    when 'payment.failed' then 'failed'
+    when 'payment.captured' then 'captured'
+    when 'payment.refunded' then 'refunded'
+  end;
+  if v_status is null then
+    raise exception 'Unknown payment event type %', v_type using errcode = '22023';
+  end if;
+
+  -- Each event is applied once, however often it is delivered
+  if exists (
+    select 1 from payment_events
+    where provider = v_provider and provider_event_id = event->>'id'
+  ) then
+    return jsonb_build_object('duplicate', true, 'order_status', v_order.status);
+  end if;
+
+  insert into payments (order_id, provider, provider_payment_id, status, amount, failure_reason)
+  values (v_order_id, v_provider, event->>'payment_id', v_status, coalesce(v_amount, 0), event->>'failure_reason')
+  on conflict (provider, provider_payment_id) do update
+  set
+    -- A late authorization must not undo a capture or refund
+    status = case
+      when payments.status in ('captured', 'refunded') and excluded.status in ('requires_action', 'authorized', 'failed')
+        then payments.status
+      else excluded.status
+    end,
+    amount_refunded = case
+      when excluded.status = 'refunded' then payments.amount_refunded + coalesce(v_amount, 0)
+      else payments.amount_refunded
+    end,
+    failure_reason = coalesce(excluded.failure_reason, payments.failure_reason),
+    updated_at = now()
+  returning id into v_payment_id;
+
+  insert into payment_events (provider, provider_event_id, payment_id, type, payload)
+  values (v_provider, event->>'id', v_payment_id, v_type, event);
+
+  -- Only a confirmed capture of the full total pays for the order
+  if v_type = 'payment.captured' and v_order.status = 'pending' and v_amount = v_order.total then
+    update orders set status = 'paid' where id = v_order_id;
+    v_order.status := 'paid';
+  elsif v_type = 'payment.refunded' and v_order.status = 'paid'
+    and (select amount_refunded from payments where id = v_payment_id) >= v_order.total then
+    update orders set status = 'refunded' where id = v_order_id;
+    v_order.status := 'refunded';
+  end if;
+
+  return jsonb_build_object('duplicate', false, 'order_status', v_order.status);
+end;
+$$;
+
+revoke execute on function public.record_payment_event(jsonb, text) from public;
+grant execute on function public.record_payment_event(jsonb, text) to anon, authenticated, service_role;
+
+-- Guest orders move into the account that confirms their email. Only a
+-- confirmed address counts, so signing up with someone else's email claims
+-- nothing.
+create or replace function public.claim_guest_orders()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.email_confirmed_at is not null and new.email is not null then
+    update public.orders
+    set user_id = new.id
+    where user_id is null and guest_email = lower(new.email);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_email_confirmed on auth.users;
+create trigger on_auth_user_email_confirmed
+  after insert or update of email, email_confirmed_at on auth.users
+  for each row execute function public.claim_guest_orders();
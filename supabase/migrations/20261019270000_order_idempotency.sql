@@ -0,0 +1,245 @@
+-- Idempotent order placement. Each checkout attempt sends a key whose hash is
+-- stored on the order, so a double submit, a retry after a lost response or
+-- the same checkout in a second tab gets the original order back instead of
+-- placing another one and taking the stock twice. Only the hash is kept
+-- because a guest order's access token is derived from the key.
+
+alter table public.orders
+  add column if not exists idempotency_key_hash bytea;
+
+alter table public.orders drop constraint if exists orders_idempotency_key_hash_key;
+alter table public.orders
+  add constraint orders_idempotency_key_hash_key unique (idempotency_key_hash);
+
+drop function if exists public.place_order(jsonb, jsonb, text);
+
+create or replace function public.place_order(
+  items jsonb,
+  shipping_address jsonb,
+  promotion_code text default null,
+  idempotency_key text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lines jsonb;
+  v_shortfalls jsonb;
+  v_order_id uuid;
+  v_pricing jsonb;
+  v_promotion jsonb;
+  v_address_errors jsonb;
+  v_guest_email text;
+  v_access_token text;
+  v_existing orders%rowtype;
+begin
+  -- A repeated attempt gets the order the first one created. Attempts with the
+  -- same key wait for each other, so only one of them can get past this.
+  if idempotency_key is not null then
+    if length(idempotency_key) < 32 then
+      raise exception 'Idempotency keys must be at least 32 characters' using errcode = '22023';
+    end if;
+
+    perform pg_advisory_xact_lock(hashtextextended('place_order:' || idempotency_key, 0));
+
+    select * into v_existing
+    from orders o
+    where o.idempotency_key_hash = sha256(convert_to(place_order.idempotency_key, 'UTF8'));
+    if found then
+      if v_user_id is not null and v_existing.user_id is distinct from v_user_id
+        or v_user_id is null and v_existing.user_id is not null then
+        raise exception 'Idempotency key already used' using errcode = '23505';
+      end if;
+
+      if v_user_id is null then
+        v_access_token := encode(sha256(convert_to('order-access:' || idempotency_key, 'UTF8')), 'hex');
+      end if;
+
+      return jsonb_build_object(
+        'order_id', v_existing.id,
+        'shortfalls', '[]'::jsonb,
+        'pricing', jsonb_build_object(
+          'subtotal', v_existing.subtotal,
+          'discount', v_existing.discount,
+          'shipping', v_existing.shipping,
+          'tax', v_existing.tax,
+          'total', v_existing.total
+        ),
+        'access_token', v_access_token,
+        'status', v_existing.status,
+        'replayed', true
+      );
+    end if;
+  end if;
+
+  v_address_errors := public.validate_shipping_address(shipping_address);
+  if v_address_errors <> '{}'::jsonb then
+    return jsonb_build_object('order_id', null, 'shortfalls', '[]'::jsonb, 'address_errors', v_address_errors);
+  end if;
+
+  -- A guest order belongs to the email it ships to until an account with
+  -- that email claims it. Until then the guest reaches it with a secret token,
+  -- of which only the hash is kept.
+  -- With an idempotency key the token is derived from it, so a repeated
+  -- attempt can be given the same token without storing it. The key itself
+  -- is only stored hashed, so the token can't be worked out from the order.
+  if v_user_id is null then
+    v_guest_email := lower(trim(shipping_address->>'email'));
+    v_access_token := case
+      when idempotency_key is not null
+        then encode(sha256(convert_to('order-access:' || idempotency_key, 'UTF8')), 'hex')
+      else replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+    end;
+  end if;
+
+  if items is null or jsonb_typeof(items) <> 'array' or jsonb_array_length(items) = 0 then
+    raise exception 'Order must contain at least one item' using errcode = '22023';
+  end if;
+
+  -- Collapse duplicate lines so each product or variant is checked once
+  select jsonb_agg(jsonb_build_object('id', line.id, 'variant_id', line.variant_id, 'quantity', line.quantity))
+  into v_lines
+  from (
+    select
+      (e->>'id')::uuid as id,
+      nullif(e->>'variant_id', '')::uuid as variant_id,
+      sum((e->>'quantity')::int) as quantity
+    from jsonb_array_elements(items) as e
+    group by 1, 2
+  ) as line;
+
+  if exists (
+    select 1 from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+    where r.quantity is null or r.quantity < 1
+  ) then
+    raise exception 'Item quantities must be at least 1' using errcode = '22023';
+  end if;
+
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  perform 1
+  from products p
+  where p.id in (select r.id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by p.id
+  for update;
+
+  perform 1
+  from product_variants v
+  where v.id in (select r.variant_id from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int))
+  order by v.id
+  for update;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'product_id', r.id,
+        'variant_id', r.variant_id,
+        'name', p.name,
+        'requested', r.quantity,
+        'available', case
+          when r.variant_id is not null then coalesce(v.stock, 0)
+          when p.has_variants then 0
+          else coalesce(p.stock, 0)
+        end
+      )
+      order by r.id, r.variant_id
+    ),
+    '[]'::jsonb
+  )
+  into v_shortfalls
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  left join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id and v.product_id = r.id
+  where p.id is null
+    or (r.variant_id is null and (p.has_variants or p.stock < r.quantity))
+    or (r.variant_id is not null and (v.id is null or v.stock < r.quantity));
+
+  if jsonb_array_length(v_shortfalls) > 0 then
+    return jsonb_build_object('order_id', null, 'shortfalls', v_shortfalls);
+  end if;
+
+  -- The promotion is checked again with its row locked, so a code can't be
+  -- used past its limit by orders placed at the same time. This happens
+  -- before stock is taken, since a rejected code returns without rolling back.
+  if nullif(trim(promotion_code), '') is not null then
+    perform 1 from promotions where code = upper(trim(promotion_code)) for update;
+
+    v_promotion := public.check_promotion(promotion_code, v_lines);
+    if v_promotion->>'error' is not null then
+      return jsonb_build_object(
+        'order_id', null,
+        'shortfalls', '[]'::jsonb,
+        'promotion_error', v_promotion->>'error'
+      );
+    end if;
+  end if;
+
+  update products p
+  set stock = p.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where p.id = r.id and r.variant_id is null;
+
+  -- Product stock for variants is re-summed by sync_product_variant_stock
+  update product_variants v
+  set stock = v.stock - r.quantity
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  where v.id = r.variant_id;
+
+  -- Priced from the catalog and the pricing rules, never from the client
+  v_pricing := public.calculate_order_pricing(v_lines, shipping_address->>'country', shipping_address->>'state', v_promotion);
+
+  insert into orders (
+    user_id, guest_email, guest_token_hash, idempotency_key_hash, shipping_address,
+    subtotal, discount, shipping, tax, total, promotion_id, promotion_code, status
+  )
+  values (
+    v_user_id,
+    v_guest_email,
+    case when v_access_token is not null then sha256(convert_to(v_access_token, 'UTF8')) end,
+    sha256(convert_to(idempotency_key, 'UTF8')),
+    shipping_address,
+    (v_pricing->>'subtotal')::numeric,
+    (v_pricing->>'discount')::numeric,
+    (v_pricing->>'shipping')::numeric,
+    (v_pricing->>'tax')::numeric,
+    (v_pricing->>'total')::numeric,
+    (v_promotion->>'promotion_id')::uuid,
+    v_promotion->>'code',
+    'pending'
+  )
+  returning id into v_order_id;
+
+  if v_promotion is not null then
+    update promotions
+    set uses = uses + 1
+    where id = (v_promotion->>'promotion_id')::uuid;
+  end if;
+
+  insert into order_items (order_id, product_id, variant_id, product_name, variant_name, quantity, unit_price)
+  select
+    v_order_id,
+    p.id,
+    v.id,
+    p.name,
+    case when v.id is not null then public.variant_label(v.id) end,
+    r.quantity,
+    coalesce(v.price, p.price)
+  from jsonb_to_recordset(v_lines) as r(id uuid, variant_id uuid, quantity int)
+  join products p on p.id = r.id
+  left join product_variants v on v.id = r.variant_id;
+
+  return jsonb_build_object(
+    'order_id', v_order_id,
+    'shortfalls', '[]'::jsonb,
+    'pricing', v_pricing,
+    'access_token', v_access_token,
+    'status', 'pending',
+    'replayed', false
+  );
+end;
+$$;
+
+revoke execute on function public.place_order(jsonb, jsonb, text, text) from public;
+grant execute on function public.place_order(jsonb, jsonb, text, text) to anon, authenticated;
@@ -0,0 +1,305 @@
+-- Orders follow a fixed lifecycle:
+--
+--   pending -> paid -> processing -> shipped -> delivered
+--
+-- An order can be cancelled before it is paid for. Once paid, it can be
+-- refunded at any point. Cancelled and refunded orders are final. Keep
+-- ORDER_STATUS_TRANSITIONS in src/lib/order-status.ts in step with
+-- order_status_transition_allowed.
+update public.orders set status = 'pending' where status is null;
+
+alter table public.orders
+  alter column status set default 'pending',
+  alter column status set not null;
+
+alter table public.orders drop constraint if exists orders_status_check;
+alter table public.orders
+  add constraint orders_status_check check (
+    status in ('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded')
+  );
+
+create or replace function public.order_status_transition_allowed(p_from text, p_to text)
+returns boolean
+language sql
+immutable
+as $$
+  select (p_from, p_to) in (
+    ('pending', 'paid'),
+    ('pending', 'cancelled'),
+    ('paid', 'processing'),
+    ('paid', 'refunded'),
+    ('processing', 'shipped'),
+    ('processing', 'refunded'),
+    ('shipped', 'delivered'),
+    ('shipped', 'refunded'),
+    ('delivered', 'refunded')
+  );
+$$;
+
+-- Every status an order has had, with who set it. `actor` is set by the
+-- function making the change through the `app.order_status_actor` setting,
+-- such as 'customer', 'support' or 'payment:stripe'. Changes made without it
+-- are recorded as 'system'.
+create table if not exists public.order_status_history (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  actor text not null,
+  changed_by uuid references auth.users (id) on delete set null,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_status_history_order_id_idx
+  on public.order_status_history (order_id, created_at);
+
+alter table public.order_status_history enable row level security;
+
+drop policy if exists "Users can view the status history of their own orders" on public.order_status_history;
+create policy "Users can view the status history of their own orders"
+  on public.order_status_history for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.orders
+      where orders.id = order_status_history.order_id
+        and orders.user_id = auth.uid()
+    )
+  );
+
+-- Existing orders start their history at their current status
+insert into public.order_status_history (order_id, from_status, to_status, actor, created_at)
+select o.id, null, o.status, 'system', o.created_at
+from public.orders o
+where not exists (
+  select 1 from public.order_status_history h where h.order_id = o.id
+);
+
+create or replace function public.check_order_status_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status
+    and not public.order_status_transition_allowed(old.status, new.status) then
+    raise exception 'An order can''t go from % to %', old.status, new.status using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_order_status_transition on public.orders;
+create trigger check_order_status_transition
+  before update of status on public.orders
+  for each row execute function public.check_order_status_transition();
+
+create or replace function public.record_order_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return null;
+  end if;
+
+  insert into order_status_history (order_id, from_status, to_status, actor, changed_by, note)
+  values (
+    new.id,
+    case when tg_op = 'UPDATE' then old.status end,
+    new.status,
+    coalesce(nullif(current_setting('app.order_status_actor', true), ''), 'system'),
+    auth.uid(),
+    nullif(current_setting('app.order_status_note', true), '')
+  );
+
+  -- A cancelled order was never paid for, so its stock goes back on sale and
+  -- its promotion code can be used again
+  if new.status = 'cancelled' then
+    update product_variants v
+    set stock = v.stock + i.quantity
+    from order_items i
+    where i.order_id = new.id and v.id = i.variant_id;
+
+    update products p
+    set stock = p.stock + i.quantity
+    from order_items i
+    where i.order_id = new.id and p.id = i.product_id and i.variant_id is null;
+
+    if new.promotion_id is not null then
+      update promotions
+      set uses = greatest(uses - 1, 0)
+      where id = new.promotion_id;
+    end if;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists record_order_status_change on public.orders;
+create trigger record_order_status_change
+  after insert or update of status on public.orders
+  for each row execute function public.record_order_status_change();
+
+-- Moves an order to another status. Support, using the service role or the
+-- SQL editor, can make any allowed transition; customers can only cancel their
+-- own orders, which the transition rules limit to unpaid ones. Guests show an
+-- order is theirs with the access token from their order link.
+drop function if exists public.update_order_status(uuid, text, text);
+
+create or replace function public.update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_note text default null,
+  p_access_token text default null
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor text;
+begin
+  -- API requests always carry a role; a direct database session, such as the
+  -- SQL editor, has none
+  if coalesce(auth.role(), 'service_role') = 'service_role' then
+    v_actor := 'support';
+  elsif p_status = 'cancelled'
+    and exists (
+      select 1 from orders
+      where id = p_order_id
+        and (user_id = auth.uid() or guest_token_hash = sha256(convert_to(p_access_token, 'UTF8')))
+    ) then
+    v_actor := 'customer';
+  else
+    raise exception 'Not allowed to change this order' using errcode = '42501';
+  end if;
+
+  -- The payment went through and only its webhook is outstanding
+  if v_actor = 'customer' and exists (
+    select 1 from payments
+    where order_id = p_order_id and status in ('authorized', 'captured')
+  ) then
+    raise exception 'This order has been paid for' using errcode = '22023';
+  end if;
+
+  perform set_config('app.order_status_actor', v_actor, true);
+  perform set_config('app.order_status_note', coalesce(p_note, ''), true);
+
+  update orders set status = p_status where id = p_order_id;
+  if not found then
+    raise exception 'Order not found' using errcode = 'P0002';
+  end if;
+
+  perform set_config('app.order_status_actor', '', true);
+  perform set_config('app.order_status_note', '', true);
+
+  return p_status;
+end;
+$$;
+
+revoke execute on function public.update_order_status(uuid, text, text, text) from public;
+grant execute on function public.update_order_status(uuid, text, text, text) to anon, authenticated, service_role;
+
+-- Payments move orders through the same transitions. A refund now applies to
+-- an order at any point after payment, not only while it is 'paid'.
+create or replace function public.record_payment_event(event jsonb, access_token text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_provider text := event->>'provider';
+  v_type text := event->>'type';
+  v_order_id uuid := (event->>'order_id')::uuid;
+  v_amount numeric := (event->>'amount')::numeric;
+  v_order orders%rowtype;
+  v_payment_id uuid;
+  v_status text;
+begin
+  if auth.role() <> 'service_role' then
+    if v_provider <> 'mock' then
+      raise exception 'Only the mock gateway may report payments from the client' using errcode = '42501';
+    end if;
+    if not exists (select 1 from payment_settings where mock_gateway_enabled) then
+      raise exception 'The mock payment gateway is disabled' using errcode = '42501';
+    end if;
+    if not exists (
+      select 1 from orders
+      where id = v_order_id
+        and (user_id = auth.uid() or guest_token_hash = sha256(convert_to(access_token, 'UTF8')))
+    ) then
+      raise exception 'Order not found' using errcode = 'P0002';
+    end if;
+  end if;
+
+  select * into v_order from orders where id = v_order_id for update;
+  if not found then
+    raise exception 'Order not found' using errcode = 'P0002';
+  end if;
+
+  v_status := case v_type
+    when 'payment.requires_action' then 'requires_action'
+    when 'payment.authorized' then 'authorized'
+    when 'payment.failed' then 'failed'
+    when 'payment.captured' then 'captured'
+    when 'payment.refunded' then 'refunded'
+  end;
+  if v_status is null then
+    raise exception 'Unknown payment event type %', v_type using errcode = '22023';
+  end if;
+
+  -- Each event is applied once, however often it is delivered
+  if exists (
+    select 1 from payment_events
+    where provider = v_provider and provider_event_id = event->>'id'
+  ) then
+    return jsonb_build_object('duplicate', true, 'order_status', v_order.status);
+  end if;
+
+  insert into payments (order_id, provider, provider_payment_id, status, amount, failure_reason)
+  values (v_order_id, v_provider, event->>'payment_id', v_status, coalesce(v_amount, 0), event->>'failure_reason')
+  on conflict (provider, provider_payment_id) do update
+  set
+    -- A late authorization must not undo a capture or refund
+    status = case
+      when payments.status in ('captured', 'refunded') and excluded.status in ('requires_action', 'authorized', 'failed')
+        then payments.status
+      else excluded.status
+    end,
+    amount_refunded = case
+      when excluded.status = 'refunded' then payments.amount_refunded + coalesce(v_amount, 0)
+      else payments.amount_refunded
+    end,
+    failure_reason = coalesce(excluded.failure_reason, payments.failure_reason),
+    updated_at = now()
+  returning id into v_payment_id;
+
+  insert into payment_events (provider, provider_event_id, payment_id, type, payload)
+  values (v_provider, event->>'id', v_payment_id, v_type, event);
+
+  perform set_config('app.order_status_actor', 'payment:' || v_provider, true);
+  perform set_config('app.order_status_note', v_type, true);
+
+  -- Only a confirmed capture of the full total pays for the order
+  if v_type = 'payment.captured' and v_order.status = 'pending' and v_amount = v_order.total then
+    update orders set status = 'paid' where id = v_order_id;
+    v_order.status := 'paid';
+  elsif v_type = 'payment.refunded' and public.order_status_transition_allowed(v_order.status, 'refunded')
+    and (select amount_refunded from payments where id = v_payment_id) >= v_order.total then
+    update orders set status = 'refunded' where id = v_order_id;
+    v_order.status := 'refunded';
+  end if;
+
+  perform set_config('app.order_status_actor', '', true);
+  perform set_config('app.order_status_note', '', true);
+
+  return jsonb_build_object('duplicate', false, 'order_status', v_order.status);
+end;
+$$;
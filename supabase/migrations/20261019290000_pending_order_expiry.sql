@@ -0,0 +1,57 @@
+-- Pending orders hold their stock until they are paid for. An order left
+-- unpaid, such as after a declined payment, is cancelled once it is an hour
+-- old, which puts its stock back on sale.
+
+create index if not exists orders_pending_created_at_idx
+  on public.orders (created_at)
+  where status = 'pending';
+
+-- Cancels pending orders older than p_max_age, except those with a payment
+-- that has been authorized or captured and only waits for its webhook.
+-- Returns how many were cancelled.
+create or replace function public.expire_pending_orders(p_max_age interval default interval '1 hour')
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  perform set_config('app.order_status_actor', 'system', true);
+  perform set_config('app.order_status_note', 'Not paid within ' || p_max_age::text, true);
+
+  update orders
+  set status = 'cancelled'
+  where id in (
+    select o.id from orders o
+    where o.status = 'pending'
+      and o.created_at < now() - p_max_age
+      and not exists (
+        select 1 from payments pm
+        where pm.order_id = o.id and pm.status in ('authorized', 'captured')
+      )
+    for update skip locked
+  );
+  get diagnostics v_count = row_count;
+
+  perform set_config('app.order_status_actor', '', true);
+  perform set_config('app.order_status_note', '', true);
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.expire_pending_orders(interval) from public, anon, authenticated;
+grant execute on function public.expire_pending_orders(interval) to service_role;
+
+-- Runs every five minutes where pg_cron is enabled. Elsewhere the operator
+-- schedules `select public.expire_pending_orders();` themselves. Scheduling
+-- under an existing name replaces that job.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('expire-pending-orders', '*/5 * * * *', 'select public.expire_pending_orders()');
+  end if;
+end;
+$$;
@@ -0,0 +1,5 @@
+-- Local development data, loaded by `supabase db reset`. It never runs
+-- against a hosted project.
+
+-- The storefront takes payments through the in-browser mock gateway locally
+update public.payment_settings set mock_gateway_enabled = true;